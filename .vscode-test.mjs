@@ -2,4 +2,6 @@ import { defineConfig } from '@vscode/test-cli';
 
 export default defineConfig({
 	files: 'out/test/**/*.test.js',
+	// Tests that build a ts-morph project pay for the compiler's start-up.
+	mocha: { timeout: 20000 },
 });
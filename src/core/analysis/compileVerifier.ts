@@ -0,0 +1,206 @@
+import { Project, ts } from 'ts-morph';
+import { SymbolEntry, extractSymbols } from '../indexing/symbolExtractor';
+import { getStagedFiles, getUnstagedFiles, readStagedContent, readHeadContent } from '../git/stagedSnapshot';
+
+/** A type-checker error inside an impacted symbol. */
+export interface CompileError {
+    message: string;
+    /** Absolute path of the file the error is in. */
+    filePath: string;
+    /** 1-based position of the error in the staged content. */
+    line: number;
+    column: number;
+}
+
+/**
+ * Whether an impacted symbol still compiles once the staged changes are
+ * committed.
+ *
+ * - `breaks`   : the staged snapshot has type errors inside the symbol that
+ *                the last commit did not have.
+ * - `compiles` : no new errors — the symbol still type-checks.
+ */
+export type CompileVerdict = 'breaks' | 'compiles';
+
+export interface CompileVerification {
+    verdict: CompileVerdict;
+    /** The new errors, for `breaks`; empty for `compiles`. */
+    errors: CompileError[];
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot projects
+// ---------------------------------------------------------------------------
+
+/** Which version of the changed files a snapshot holds. */
+type Revision = 'index' | 'head';
+
+/**
+ * Every file whose staged or committed content may differ from the disk:
+ * the staged files (and the old path of a staged rename / copy) plus the
+ * files with unstaged edits.
+ */
+async function getChangedFiles(workspaceRootFsPath: string): Promise<string[]> {
+    const staged   = await getStagedFiles(workspaceRootFsPath);
+    const unstaged = await getUnstagedFiles(workspaceRootFsPath);
+    return [...new Set([
+        ...staged.flatMap(e => e.oldAbsolutePath ? [e.absolutePath, e.oldAbsolutePath] : [e.absolutePath]),
+        ...unstaged,
+    ])];
+}
+
+/** Content of every file in `filePaths` at `revision`; null where it does not exist there. */
+async function readSnapshot(
+    workspaceRootFsPath: string,
+    filePaths: string[],
+    revision: Revision,
+): Promise<Map<string, string | null>> {
+    const read = revision === 'index' ? readStagedContent : readHeadContent;
+    const contents = new Map<string, string | null>();
+    for (const filePath of filePaths) {
+        contents.set(filePath, await read(workspaceRootFsPath, filePath));
+    }
+    return contents;
+}
+
+/**
+ * A scratch project with the live project's compiler options and files, in
+ * which every file of `contents` holds its snapshot text instead of what is
+ * on disk (or in the editor), and files missing from the snapshot are left
+ * out.  Dependencies are resolved by the program as usual.
+ */
+function createSnapshotProject(project: Project, contents: Map<string, string | null>): Project {
+    const snapshot = new Project({
+        compilerOptions: project.getCompilerOptions(),
+        skipAddingFilesFromTsConfig: true,
+        skipFileDependencyResolution: true,
+    });
+    for (const sourceFile of project.getSourceFiles()) {
+        const filePath = sourceFile.getFilePath();
+        if (contents.has(filePath) || filePath.includes('/node_modules/')) { continue; }
+        snapshot.addSourceFileAtPathIfExists(filePath);
+    }
+    for (const [filePath, text] of contents) {
+        if (text !== null) { snapshot.createSourceFile(filePath, text, { overwrite: true }); }
+    }
+    return snapshot;
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+/** The innermost of `entries` whose range contains `pos`. */
+function innermostSymbol(entries: SymbolEntry[], pos: number): SymbolEntry | undefined {
+    let best: SymbolEntry | undefined;
+    for (const entry of entries) {
+        if (pos < entry.startPos || pos > entry.endPos) { continue; }
+        if (!best || entry.endPos - entry.startPos < best.endPos - best.startPos) { best = entry; }
+    }
+    return best;
+}
+
+/**
+ * The pre-emit errors of `filePath` in `snapshot`, each attributed to the
+ * innermost of `impactedIds` it falls in.  Errors outside every impacted
+ * symbol are dropped.  Also returns the impacted symbols the snapshot has.
+ */
+function collectErrors(
+    snapshot: Project,
+    filePath: string,
+    impactedIds: Set<string>,
+): { present: string[]; errors: Map<string, CompileError[]> } {
+    const errors     = new Map<string, CompileError[]>();
+    const sourceFile = snapshot.getSourceFile(filePath);
+    if (!sourceFile) { return { present: [], errors }; }
+
+    const entries = extractSymbols(sourceFile).filter(e => impactedIds.has(e.id));
+    for (const diagnostic of sourceFile.getPreEmitDiagnostics()) {
+        const start = diagnostic.getStart();
+        if (diagnostic.getCategory() !== ts.DiagnosticCategory.Error || start === undefined) { continue; }
+        if (diagnostic.getSourceFile()?.getFilePath() !== filePath) { continue; }
+        const owner = innermostSymbol(entries, start);
+        if (!owner) { continue; }
+
+        const { line, column } = sourceFile.getLineAndColumnAtPos(start);
+        const message = ts.flattenDiagnosticMessageText(diagnostic.compilerObject.messageText, ' ');
+        let list = errors.get(owner.id);
+        if (!list) { list = []; errors.set(owner.id, list); }
+        list.push({ message, filePath, line, column });
+    }
+    return { present: entries.map(e => e.id), errors };
+}
+
+// ---------------------------------------------------------------------------
+// Public entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Type-check the impacted symbols against the staged snapshot.
+ *
+ * The staged content of every changed file is loaded into a scratch copy of
+ * the project (files with unstaged edits get their staged version too, so
+ * nothing outside the commit leaks in) and the pre-emit diagnostics of every
+ * impacted file are collected.  An error counts against the innermost
+ * impacted symbol it falls in.  Files with errors are checked once more at
+ * `HEAD`, and errors a symbol already had there — same message — are not
+ * blamed on the staged change.
+ *
+ * Symbols the snapshot no longer has (deleted ones) get no verdict; neither
+ * do symbols of files outside `project`.
+ *
+ * @param project             The folder's live ts-morph project (not mutated).
+ * @param impactedIds         Direct and indirect impact of the staged change.
+ * @param workspaceRootFsPath Absolute path to the repo / workspace root.
+ */
+export async function verifyStagedCompilation(
+    project: Project,
+    impactedIds: string[],
+    workspaceRootFsPath: string,
+): Promise<Map<string, CompileVerification>> {
+    const t0 = Date.now();
+    const result = new Map<string, CompileVerification>();
+
+    const impacted = new Set(impactedIds);
+    const files    = new Set<string>();
+    for (const id of impacted) {
+        const filePath = id.slice(0, id.lastIndexOf('#'));
+        if (project.getSourceFile(filePath)) { files.add(filePath); }
+    }
+    if (files.size === 0) { return result; }
+
+    const changedFiles = await getChangedFiles(workspaceRootFsPath);
+    const staged       = createSnapshotProject(project, await readSnapshot(workspaceRootFsPath, changedFiles, 'index'));
+
+    const errorsById   = new Map<string, CompileError[]>();
+    const failingFiles = new Set<string>();
+    for (const filePath of files) {
+        const { present, errors } = collectErrors(staged, filePath, impacted);
+        for (const id of present) { errorsById.set(id, errors.get(id) ?? []); }
+        if (errors.size > 0) { failingFiles.add(filePath); }
+    }
+
+    // Errors that were already there before the change are not its fault.
+    if (failingFiles.size > 0) {
+        const head = createSnapshotProject(project, await readSnapshot(workspaceRootFsPath, changedFiles, 'head'));
+        for (const filePath of failingFiles) {
+            const { errors } = collectErrors(head, filePath, impacted);
+            for (const [id, previous] of errors) {
+                const known = new Set(previous.map(e => e.message));
+                const current = errorsById.get(id);
+                if (current) { errorsById.set(id, current.filter(e => !known.has(e.message))); }
+            }
+        }
+    }
+
+    for (const [id, errors] of errorsById) {
+        result.set(id, { verdict: errors.length > 0 ? 'breaks' : 'compiles', errors });
+    }
+
+    const breaks = [...result.values()].filter(v => v.verdict === 'breaks').length;
+    console.log(
+        `[RippleCheck] Compile verification — ${result.size} symbol(s) in ${files.size} file(s), ` +
+        `${breaks} break(s) — ${Date.now() - t0}ms`
+    );
+    return result;
+}
@@ -1,9 +1,20 @@
 import { SymbolIndex } from '../indexing/symbolIndex';
+import { SymbolEntry } from '../indexing/symbolExtractor';
 import { DependencyGraph } from '../graph/types';
+import { SignatureCompatibility } from './signatureCompatibility';
+import { SignatureDiff, diffSignatures } from './signatureDiff';
 
 export interface SignatureChangeResult {
     /** Symbols whose public API (signature) changed — these cause ripple impact. */
     ripple: string[];
+    /**
+     * Compatibility of each `ripple` symbol's change, from
+     * `classifySignatureChanges`.  Populated only by handleFilesChanged; a
+     * ripple symbol without an entry is treated as breaking.
+     */
+    compatibility: Map<string, SignatureCompatibility>;
+    /** Before / after signature of each `ripple` symbol, keyed by symbol ID. */
+    signatureDiffs: Map<string, SignatureDiff>;
     /** Symbols that exist in both old and new but are unchanged — safe edits. */
     safe: string[];
     /** Symbols newly added to this file. */
@@ -13,22 +24,22 @@ export interface SignatureChangeResult {
     /**
      * Dependents of removed symbols, captured BEFORE their graph edges were
      * cleaned up.  Keyed by the removed symbol ID; values are the IDs of
-     * symbols that depended on it.  Populated only by handleFileChanged.
+     * symbols that depended on it.  Populated only by handleFilesChanged.
      */
     preRemovalDependents: Map<string, string[]>;
 }
 
 /**
- * Snapshot the signature hashes for all symbols belonging to `filePath`
- * BEFORE a re-analysis wipes them from the index.
+ * Snapshot the entries (signature hash and text) for all symbols belonging
+ * to `filePath` BEFORE a re-analysis wipes them from the index.
  *
  * Call this before `removeFileFromGraph` to preserve the old state for comparison.
  */
-export function snapshotSignatures(filePath: string, symbolIndex: SymbolIndex): Map<string, string> {
-    const snap = new Map<string, string>();
+export function snapshotSignatures(filePath: string, symbolIndex: SymbolIndex): Map<string, SymbolEntry> {
+    const snap = new Map<string, SymbolEntry>();
     for (const [id, entry] of symbolIndex) {
         if (entry.filePath === filePath) {
-            snap.set(id, entry.signatureHash);
+            snap.set(id, entry);
         }
     }
     return snap;
@@ -38,29 +49,33 @@ export function snapshotSignatures(filePath: string, symbolIndex: SymbolIndex):
  * Compare pre-analysis hashes against the freshly-indexed symbols for a file.
  *
  * @param filePath  The file that was re-analysed.
- * @param oldHashes Snapshot taken before the file was wiped (from snapshotSignatures).
- * @param newIndex  The full symbol index AFTER re-analysis.
+ * @param oldEntries Snapshot taken before the file was wiped (from snapshotSignatures).
+ * @param newIndex   The full symbol index AFTER re-analysis.
  */
 export function detectSignatureChanges(
     filePath: string,
-    oldHashes: Map<string, string>,
+    oldEntries: Map<string, SymbolEntry>,
     newIndex: SymbolIndex,
 ): SignatureChangeResult {
-    const result: SignatureChangeResult = { ripple: [], safe: [], added: [], removed: [], preRemovalDependents: new Map() };
+    const result: SignatureChangeResult = {
+        ripple: [], compatibility: new Map(), signatureDiffs: new Map(),
+        safe: [], added: [], removed: [], preRemovalDependents: new Map(),
+    };
 
     for (const [id, entry] of newIndex) {
         if (entry.filePath !== filePath) { continue; }
-        const oldHash = oldHashes.get(id);
-        if (oldHash === undefined) {
+        const old = oldEntries.get(id);
+        if (old === undefined) {
             result.added.push(id);
-        } else if (oldHash !== entry.signatureHash) {
+        } else if (old.signatureHash !== entry.signatureHash) {
             result.ripple.push(id);
+            result.signatureDiffs.set(id, diffSignatures(entry.kind, old.signature, entry.signature));
         } else {
             result.safe.push(id);
         }
     }
 
-    for (const id of oldHashes.keys()) {
+    for (const id of oldEntries.keys()) {
         if (!newIndex.has(id)) {
             result.removed.push(id);
         }
@@ -99,3 +114,49 @@ export function detectGhostSymbols(
     }
     return ghosts;
 }
+
+/**
+ * Pair ghost symbols with newly added symbols that are the same declaration
+ * moved to another file and/or renamed.
+ *
+ * Candidates must have the same kind.  Matching runs in two passes so the
+ * strongest evidence wins:
+ *
+ *   1. identical `bodyHash` — the declaration text is unchanged apart from
+ *      its name, `export` / `default` and whitespace (a pure move or rename);
+ *      a candidate with the same local name is preferred.
+ *   2. same local name and identical `signatureHash` — moved, and its body
+ *      edited in the same change.  Module symbols all share their name and
+ *      signature, so they only match in the first pass.
+ *
+ * A renamed symbol whose body also changed cannot be told apart from a
+ * delete + add and stays a ghost.
+ *
+ * @param ghosts  Old entries of the ghost symbols (from before analysis).
+ * @param added   Entries of the symbols added by the analysed change.
+ * @returns Map of ghost ID → ID of the symbol it became.
+ */
+export function detectSymbolMoves(ghosts: SymbolEntry[], added: SymbolEntry[]): Map<string, string> {
+    const moves     = new Map<string, string>();
+    const unmatched = new Set(added);
+    const localName = (entry: SymbolEntry) => entry.name.slice(entry.name.lastIndexOf('.') + 1);
+
+    const take = (ghost: SymbolEntry, matches: (candidate: SymbolEntry) => boolean): void => {
+        if (moves.has(ghost.id)) { return; }
+        const candidates = [...unmatched].filter(c => c.kind === ghost.kind && matches(c));
+        const best = candidates.find(c => localName(c) === localName(ghost)) ?? candidates[0];
+        if (!best) { return; }
+        moves.set(ghost.id, best.id);
+        unmatched.delete(best);
+    };
+
+    for (const ghost of ghosts) {
+        take(ghost, c => c.bodyHash !== '' && c.bodyHash === ghost.bodyHash);
+    }
+    for (const ghost of ghosts) {
+        if (ghost.kind === 'module') { continue; }
+        take(ghost, c => localName(c) === localName(ghost) && c.signatureHash === ghost.signatureHash);
+    }
+
+    return moves;
+}
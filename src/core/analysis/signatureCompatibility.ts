@@ -0,0 +1,214 @@
+import * as path from 'path';
+import { Project, Node, SourceFile, SyntaxKind, Type, ts } from 'ts-morph';
+import { SymbolIndex } from '../indexing/symbolIndex';
+import { SymbolEntry, extractSymbols } from '../indexing/symbolExtractor';
+
+/**
+ * How a changed signature affects existing users of the symbol.
+ *
+ * - `breaking`             : the new API rejects every use of the old one
+ *                            (neither type is assignable to the other, or a
+ *                            required parameter was dropped).
+ * - `potentially-breaking` : some uses keep working, others may not — a
+ *                            narrowed parameter, a widened property, a
+ *                            removed optional parameter.  Also the verdict
+ *                            whenever the two signatures cannot be compared.
+ * - `compatible`           : every existing use still type-checks, e.g. a new
+ *                            optional trailing parameter or a widened
+ *                            parameter type.
+ */
+export type SignatureCompatibility = 'breaking' | 'potentially-breaking' | 'compatible';
+
+// ---------------------------------------------------------------------------
+// Declaration lookup
+// ---------------------------------------------------------------------------
+
+/** Node kinds `extractSymbols` indexes, matched by their `getStart()`. */
+const DECLARATION_KINDS: ReadonlySet<SyntaxKind> = new Set([
+    SyntaxKind.FunctionDeclaration,
+    SyntaxKind.MethodDeclaration,
+    SyntaxKind.Constructor,
+    SyntaxKind.GetAccessor,
+    SyntaxKind.SetAccessor,
+    SyntaxKind.PropertyDeclaration,
+    SyntaxKind.Parameter,
+    SyntaxKind.PropertySignature,
+    SyntaxKind.MethodSignature,
+    SyntaxKind.ClassDeclaration,
+    SyntaxKind.InterfaceDeclaration,
+    SyntaxKind.TypeAliasDeclaration,
+    SyntaxKind.EnumDeclaration,
+    SyntaxKind.EnumMember,
+    SyntaxKind.VariableDeclaration,
+    SyntaxKind.ExportAssignment,
+]);
+
+/** The declaration node an index entry was extracted from. */
+function findDeclaration(sourceFile: SourceFile, entry: SymbolEntry): Node | undefined {
+    for (
+        let node = sourceFile.getDescendantAtPos(entry.startPos);
+        node && node.getStart() === entry.startPos;
+        node = node.getParent()
+    ) {
+        if (DECLARATION_KINDS.has(node.getKind())) { return node; }
+    }
+    return undefined;
+}
+
+/**
+ * The type users of a declaration see.  A constructor is compared through
+ * the class's static side (`typeof Foo`), accessors through the property type.
+ */
+function declarationType(node: Node): Type | undefined {
+    if (Node.isConstructorDeclaration(node)) {
+        const cls = node.getParentOrThrow();
+        return cls.getSymbol()?.getTypeAtLocation(cls);
+    }
+    if (Node.isGetAccessorDeclaration(node)) { return node.getReturnType(); }
+    if (Node.isSetAccessorDeclaration(node)) { return node.getParameters()[0]?.getType(); }
+    return node.getType();
+}
+
+function hasTypeNode(node: Node): boolean {
+    return (Node.isTyped(node) && node.getTypeNode() !== undefined) || ts.getJSDocType(node.compilerNode) !== undefined;
+}
+
+function hasReturnTypeNode(node: Node): boolean {
+    return (Node.isReturnTyped(node) && node.getReturnTypeNode() !== undefined) || ts.getJSDocReturnType(node.compilerNode) !== undefined;
+}
+
+/**
+ * Whether everything users see of a declaration is written out — every
+ * parameter and the return type of a callable, the type of anything else —
+ * rather than inferred.  JSDoc types count in JavaScript.
+ */
+function isExplicitlyTyped(node: Node): boolean {
+    if (Node.isVariableDeclaration(node) && !hasTypeNode(node)) {
+        const init = node.getInitializer();
+        return (Node.isArrowFunction(init) || Node.isFunctionExpression(init)) && isExplicitlyTyped(init);
+    }
+    if (Node.isGetAccessorDeclaration(node)) { return hasReturnTypeNode(node); }
+    if (Node.isConstructorDeclaration(node) || Node.isSetAccessorDeclaration(node)) {
+        return node.getParameters().every(hasTypeNode);
+    }
+    if (Node.isFunctionLikeDeclaration(node) || Node.isMethodSignature(node)) {
+        return hasReturnTypeNode(node) && node.getParameters().every(hasTypeNode);
+    }
+    if (Node.isParameterDeclaration(node) || Node.isPropertyDeclaration(node) || Node.isPropertySignature(node)) {
+        return hasTypeNode(node);
+    }
+    return !Node.isExportAssignment(node);
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+/** Fewest and most arguments any call / construct signature of `type` accepts. */
+function getArity(type: Type): { min: number; max: number } {
+    let min = Infinity;
+    let max = 0;
+    for (const signature of [...type.getCallSignatures(), ...type.getConstructSignatures()]) {
+        const decl   = signature.getDeclaration();
+        const params = Node.isParametered(decl) ? decl.getParameters() : [];
+        const isRest = params.some(p => p.isRestParameter());
+        min = Math.min(min, params.filter(p => !p.isOptional()).length);
+        max = Math.max(max, isRest ? Infinity : params.length);
+    }
+    return { min: min === Infinity ? 0 : min, max };
+}
+
+/**
+ * Classify the change from `oldType` to `newType`.
+ *
+ * Callables are used by calling them, so a new signature that is assignable
+ * to the old one is compatible as long as it still accepts every argument
+ * callers may pass.  Other symbols are both read and written (properties,
+ * variables, types that values are built from), so only an equivalent type
+ * is compatible and a one-way assignable change is potentially breaking.
+ */
+function compareTypes(project: Project, oldType: Type, newType: Type): SignatureCompatibility {
+    const checker      = project.getTypeChecker();
+    const newToOld     = checker.isTypeAssignableTo(newType, oldType);
+    const oldToNew     = checker.isTypeAssignableTo(oldType, newType);
+    const isCallable   = newType.getCallSignatures().length > 0 || newType.getConstructSignatures().length > 0;
+
+    if (!newToOld && !oldToNew) { return 'breaking'; }
+    if (!isCallable) { return newToOld && oldToNew ? 'compatible' : 'potentially-breaking'; }
+    if (!newToOld) { return 'potentially-breaking'; }
+
+    // Assignability lets a function ignore arguments; its callers cannot.
+    const oldArity = getArity(oldType);
+    const newArity = getArity(newType);
+    if (newArity.max < oldArity.min) { return 'breaking'; }
+    if (newArity.max < oldArity.max) { return 'potentially-breaking'; }
+    return 'compatible';
+}
+
+// ---------------------------------------------------------------------------
+// Public entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Classify every symbol in `changedIds` (symbols of `filePath` whose
+ * signature hash changed) by comparing its previous and current declared
+ * types with the type checker.
+ *
+ * The previous version of the file is loaded as a sibling scratch file so
+ * both versions resolve their imports identically and live in one program;
+ * the scratch file is removed before returning.  Symbols that cannot be
+ * located or typed in either version are `potentially-breaking`.
+ *
+ * The scratch file imports the other files as they are NOW.  When other
+ * files changed too, a type the previous version inferred from one of them
+ * would be compared as it is after the change, so declarations that are
+ * not explicitly typed are `potentially-breaking` rather than compared.
+ *
+ * @param project            The ts-morph project, already holding the new content.
+ * @param filePath           Absolute path of the changed file.
+ * @param previousText       The file's content before the change.
+ * @param changedIds         Ids of the symbols to classify.
+ * @param symbolIndex        The symbol index AFTER re-analysis.
+ * @param otherFilesChanged  Whether other files changed along with this one.
+ */
+export function classifySignatureChanges(
+    project: Project,
+    filePath: string,
+    previousText: string,
+    changedIds: string[],
+    symbolIndex: SymbolIndex,
+    otherFilesChanged = false,
+): Map<string, SignatureCompatibility> {
+    const result = new Map<string, SignatureCompatibility>();
+    if (changedIds.length === 0) { return result; }
+
+    const currentFile = project.getSourceFile(filePath);
+    const ext         = path.extname(filePath);
+    const scratchPath = path.join(path.dirname(filePath), `${path.basename(filePath, ext)}.ripplecheck-prev${ext}`);
+    const previous    = project.createSourceFile(scratchPath, previousText, { overwrite: true });
+
+    try {
+        const previousByName = new Map(extractSymbols(previous).map(e => [e.name, e]));
+
+        for (const id of changedIds) {
+            let verdict: SignatureCompatibility = 'potentially-breaking';
+            try {
+                const entry    = symbolIndex.get(id);
+                const oldEntry = entry ? previousByName.get(entry.name) : undefined;
+                const newDecl  = entry && currentFile ? findDeclaration(currentFile, entry) : undefined;
+                const oldDecl  = oldEntry ? findDeclaration(previous, oldEntry) : undefined;
+                const newType  = newDecl ? declarationType(newDecl) : undefined;
+                const oldType  = oldDecl ? declarationType(oldDecl) : undefined;
+                const inferred = otherFilesChanged && [newDecl, oldDecl].some(d => d && !isExplicitlyTyped(d));
+                if (newType && oldType && !inferred) { verdict = compareTypes(project, oldType, newType); }
+            } catch {
+                // Checker failure on a half-typed edit — keep the conservative verdict
+            }
+            result.set(id, verdict);
+        }
+    } finally {
+        project.removeSourceFile(previous);
+    }
+
+    return result;
+}
@@ -0,0 +1,337 @@
+import { SymbolKind } from '../indexing/symbolExtractor';
+
+/**
+ * Before / after view of a changed signature.  `before` and `after` are the
+ * canonical signature texts from `SymbolEntry.signature`; `changes` lists
+ * what differs in plain words, e.g. "param `opts` became required" or
+ * "return type `User` → `User | null`".
+ */
+export interface SignatureDiff {
+    before: string;
+    after: string;
+    changes: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Signature text parsing
+// ---------------------------------------------------------------------------
+//
+// The texts parsed here are produced by the `sign*` functions in
+// symbolExtractor, so their shape is known per symbol kind.  Anything that
+// does not parse falls back to a whole-signature "`a` → `b`" line.
+
+/**
+ * Split `text` on `sep` where it is not nested inside brackets.  The `>` of
+ * an arrow (`=>`) is not a closing bracket.
+ */
+function splitTopLevel(text: string, sep: string): string[] {
+    if (text === '') { return []; }
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '<' || ch === '{' || ch === '(' || ch === '[') { depth++; continue; }
+        if ((ch === '>' && text[i - 1] !== '=') || ch === '}' || ch === ')' || ch === ']') { depth--; continue; }
+        if (depth === 0 && text.startsWith(sep, i)) {
+            parts.push(text.slice(start, i));
+            start = i + sep.length;
+            i = start - 1;
+        }
+    }
+    parts.push(text.slice(start));
+    return parts;
+}
+
+/** Index of the bracket closing the one opened at `open`, or -1. */
+function matchingBracket(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '<' || ch === '{' || ch === '(' || ch === '[') { depth++; }
+        if ((ch === '>' && text[i - 1] !== '=') || ch === '}' || ch === ')' || ch === ']') {
+            depth--;
+            if (depth === 0) { return i; }
+        }
+    }
+    return -1;
+}
+
+interface ParsedParameter {
+    name: string;
+    optional: boolean;
+    rest: boolean;
+    type: string;
+}
+
+interface ParsedCallSignature {
+    typeParameters: string;
+    parameters: ParsedParameter[];
+    returnType: string;
+}
+
+/** `...name?:type` */
+function parseParameter(text: string): ParsedParameter {
+    const [head, ...type] = splitTopLevel(text, ':');
+    const rest     = head.startsWith('...');
+    const optional = head.endsWith('?');
+    const name     = head.slice(rest ? 3 : 0, optional ? -1 : undefined);
+    return { name, optional, rest, type: type.join(':') };
+}
+
+/** `<tps>(params):ret` — the shape `signCallSignature` writes. */
+function parseCallSignature(text: string): ParsedCallSignature | undefined {
+    if (!text.startsWith('<')) { return undefined; }
+    const tpEnd = matchingBracket(text, 0);
+    if (tpEnd < 0 || text[tpEnd + 1] !== '(') { return undefined; }
+    const paramEnd = matchingBracket(text, tpEnd + 1);
+    if (paramEnd < 0 || text[paramEnd + 1] !== ':') { return undefined; }
+    return {
+        typeParameters: text.slice(1, tpEnd),
+        parameters:     splitTopLevel(text.slice(tpEnd + 2, paramEnd), ',').map(parseParameter),
+        returnType:     text.slice(paramEnd + 2),
+    };
+}
+
+/** `public new(params)` — the shape `signConstructor` writes per overload. */
+function parseConstructSignature(text: string): { scope: string; parameters: ParsedParameter[] } | undefined {
+    const match = /^(\w*) new\((.*)\)$/.exec(text);
+    if (!match) { return undefined; }
+    return { scope: match[1], parameters: splitTopLevel(match[2], ',').map(parseParameter) };
+}
+
+// ---------------------------------------------------------------------------
+// Per-kind diffs
+// ---------------------------------------------------------------------------
+
+function code(text: string): string {
+    return `\`${text || 'none'}\``;
+}
+
+function describeParameter(p: ParsedParameter): string {
+    return `${p.rest ? 'rest ' : p.optional ? 'optional ' : 'required '}param ${code(p.name)}`;
+}
+
+function diffParameters(before: ParsedParameter[], after: ParsedParameter[]): string[] {
+    const changes: string[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+        const b = before[i];
+        const a = after[i];
+        if (!a) { changes.push(`${describeParameter(b)} removed`); continue; }
+        if (!b) { changes.push(`${describeParameter(a)} added`); continue; }
+        const label = `param ${code(a.name)}`;
+        if (a.name !== b.name)         { changes.push(`param ${code(b.name)} renamed to ${code(a.name)}`); }
+        if (a.rest !== b.rest)         { changes.push(`${label} ${a.rest ? 'became a rest parameter' : 'is no longer a rest parameter'}`); }
+        if (a.optional !== b.optional) { changes.push(`${label} became ${a.optional ? 'optional' : 'required'}`); }
+        if (a.type !== b.type)         { changes.push(`${label} type ${code(b.type)} → ${code(a.type)}`); }
+    }
+    return changes;
+}
+
+function diffCallSignatures(before: ParsedCallSignature, after: ParsedCallSignature): string[] {
+    const changes: string[] = [];
+    if (before.typeParameters !== after.typeParameters) {
+        changes.push(`type parameters ${code(`<${before.typeParameters}>`)} → ${code(`<${after.typeParameters}>`)}`);
+    }
+    changes.push(...diffParameters(before.parameters, after.parameters));
+    if (before.returnType !== after.returnType) {
+        changes.push(`return type ${code(before.returnType)} → ${code(after.returnType)}`);
+    }
+    return changes;
+}
+
+/** `{ a: T; b?: U }` — the props object of a component signature, by prop name. */
+function parseProps(signature: ParsedCallSignature): Map<string, { optional: boolean; type: string }> | undefined {
+    const param = signature.parameters.length === 1 ? signature.parameters[0] : undefined;
+    if (!param || !param.type.startsWith('{') || !param.type.endsWith('}')) { return undefined; }
+    const props = new Map<string, { optional: boolean; type: string }>();
+    for (const member of splitTopLevel(param.type.slice(1, -1).trim(), '; ')) {
+        const [head, ...type] = splitTopLevel(member, ':');
+        const optional = head.endsWith('?');
+        props.set(optional ? head.slice(0, -1) : head, { optional, type: type.join(':').trim() });
+    }
+    return props;
+}
+
+/**
+ * `<tps>(props:{ a: T; b?: U }):ret` — the shape `signComponent` writes.
+ * Props are diffed one by one; a component that takes no props object is
+ * diffed like a function.
+ */
+function diffComponent(before: string, after: string): string[] | undefined {
+    const b = parseCallSignature(before);
+    const a = parseCallSignature(after);
+    if (!b || !a) { return undefined; }
+    const bProps = parseProps(b);
+    const aProps = parseProps(a);
+    if (!bProps || !aProps) { return diffCallSignatures(b, a); }
+
+    const changes: string[] = [];
+    for (const [name, prop] of bProps) {
+        if (!aProps.has(name)) { changes.push(`${prop.optional ? 'optional' : 'required'} prop ${code(name)} removed`); }
+    }
+    for (const [name, prop] of aProps) {
+        const old = bProps.get(name);
+        if (!old) { changes.push(`${prop.optional ? 'optional' : 'required'} prop ${code(name)} added`); continue; }
+        if (old.optional !== prop.optional) { changes.push(`prop ${code(name)} became ${prop.optional ? 'optional' : 'required'}`); }
+        if (old.type !== prop.type)         { changes.push(`prop ${code(name)} type ${code(old.type)} → ${code(prop.type)}`); }
+    }
+    changes.push(...diffCallSignatures({ ...b, parameters: [] }, { ...a, parameters: [] }));
+    return changes;
+}
+
+/**
+ * Diff two `;`-joined overload lists pairwise.  Changes inside an overload
+ * set are prefixed with the overload's position so they can be told apart.
+ */
+function diffOverloads<T>(
+    before: string,
+    after: string,
+    parse: (text: string) => T | undefined,
+    diff: (b: T, a: T) => string[],
+): string[] | undefined {
+    const b = splitTopLevel(before, ';').map(parse);
+    const a = splitTopLevel(after, ';').map(parse);
+    if (b.some(s => s === undefined) || a.some(s => s === undefined)) { return undefined; }
+
+    const changes: string[] = [];
+    if (a.length !== b.length) { changes.push(`overloads ${b.length} → ${a.length}`); }
+    const prefix = a.length > 1 || b.length > 1;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        for (const change of diff(b[i] as T, a[i] as T)) {
+            changes.push(prefix ? `overload ${i + 1}: ${change}` : change);
+        }
+    }
+    return changes;
+}
+
+/** Call signatures, behind a `?` when it is an optional interface method. */
+function diffMethod(before: string, after: string): string[] | undefined {
+    const b = before.startsWith('?');
+    const a = after.startsWith('?');
+    const changes = diffOverloads(before.slice(b ? 1 : 0), after.slice(a ? 1 : 0), parseCallSignature, diffCallSignatures);
+    if (!changes) { return undefined; }
+    return a !== b ? [`became ${a ? 'optional' : 'required'}`, ...changes] : changes;
+}
+
+/** `get:T;set:U`, with `-` for a missing half. */
+function diffAccessor(before: string, after: string): string[] | undefined {
+    const parse = (text: string) => /^get:(.*);set:(.*)$/.exec(text);
+    const b = parse(before);
+    const a = parse(after);
+    if (!b || !a) { return undefined; }
+    const changes: string[] = [];
+    for (const [half, i] of [['getter', 1], ['setter', 2]] as const) {
+        if (b[i] === a[i]) { continue; }
+        if (b[i] === '-')      { changes.push(`${half} added`); }
+        else if (a[i] === '-') { changes.push(`${half} removed`); }
+        else                   { changes.push(`${half} type ${code(b[i])} → ${code(a[i])}`); }
+    }
+    return changes;
+}
+
+/**
+ * Interface property signatures (`readonly ?:T`) and constructor parameter
+ * properties (`private readonly:T`) carry modifiers before the type; plain
+ * class properties are the bare type.
+ */
+function diffProperty(before: string, after: string): string[] {
+    const parse = (text: string) => {
+        const match = /^((?:(?:readonly|public|private|protected|override) ?)*)(\??):(.*)$/.exec(text);
+        return match
+            ? { modifiers: match[1].trim().split(' ').filter(Boolean), optional: match[2] === '?', type: match[3] }
+            : { modifiers: [], optional: false, type: text };
+    };
+    const b = parse(before);
+    const a = parse(after);
+    const changes: string[] = [];
+    for (const m of b.modifiers) { if (!a.modifiers.includes(m)) { changes.push(`no longer ${m}`); } }
+    for (const m of a.modifiers) { if (!b.modifiers.includes(m)) { changes.push(`became ${m}`); } }
+    if (a.optional !== b.optional) { changes.push(`became ${a.optional ? 'optional' : 'required'}`); }
+    if (a.type !== b.type)         { changes.push(`type ${code(b.type)} → ${code(a.type)}`); }
+    return changes;
+}
+
+function diffList(label: string, before: string, after: string): string[] {
+    const b = splitTopLevel(before, ',');
+    const a = splitTopLevel(after, ',');
+    return [
+        ...b.filter(x => !a.includes(x)).map(x => `${label} ${code(x)} removed`),
+        ...a.filter(x => !b.includes(x)).map(x => `${label} ${code(x)} added`),
+    ];
+}
+
+/** `class:Base:[A,B]` */
+function diffClass(before: string, after: string): string[] | undefined {
+    const parse = (text: string) => /^class:(.*):\[(.*)\]$/.exec(text);
+    const b = parse(before);
+    const a = parse(after);
+    if (!b || !a) { return undefined; }
+    const changes: string[] = [];
+    if (b[1] !== a[1]) { changes.push(`base class ${code(b[1])} → ${code(a[1])}`); }
+    changes.push(...diffList('implements', b[2], a[2]));
+    return changes;
+}
+
+/** `<tps>:[bases]:{call / construct / index signatures}` */
+function diffInterface(before: string, after: string): string[] | undefined {
+    const parse = (text: string) => /^<(.*)>:\[(.*)\]:\{(.*)\}$/.exec(text);
+    const b = parse(before);
+    const a = parse(after);
+    if (!b || !a) { return undefined; }
+    const changes: string[] = [];
+    if (b[1] !== a[1]) { changes.push(`type parameters ${code(`<${b[1]}>`)} → ${code(`<${a[1]}>`)}`); }
+    changes.push(...diffList('extends', b[2], a[2]));
+    if (b[3] !== a[3]) { changes.push(`call / index signatures ${code(b[3])} → ${code(a[3])}`); }
+    return changes;
+}
+
+function diffByKind(kind: SymbolKind, before: string, after: string): string[] | undefined {
+    switch (kind) {
+        case 'component':   return diffComponent(before, after);
+        case 'function':
+            return diffOverloads(before, after, parseCallSignature, diffCallSignatures);
+        case 'method':      return diffMethod(before, after);
+        case 'constructor':
+            return diffOverloads(before, after, parseConstructSignature, (b, a) => [
+                ...(b.scope !== a.scope ? [`became ${a.scope}`] : []),
+                ...diffParameters(b.parameters, a.parameters),
+            ]);
+        case 'accessor':    return diffAccessor(before, after);
+        case 'property':    return diffProperty(before, after);
+        case 'class':       return diffClass(before, after);
+        case 'interface':   return diffInterface(before, after);
+        case 'type':
+        case 'variable':    return [`type ${code(before)} → ${code(after)}`];
+        case 'enum':        return [after.startsWith('const ') ? 'became a const enum' : 'is no longer a const enum'];
+        case 'enum-member': return [`value ${code(before)} → ${code(after)}`];
+        case 'reexport':    return [`re-exports ${code(before)} → ${code(after)}`];
+        default:            return undefined;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Public entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Describe how a symbol's canonical signature changed.  Signatures written by
+ * an older extractor (or otherwise unparseable) are reported as a single
+ * whole-signature change.
+ *
+ * @param kind    The symbol's kind, which decides how the texts are parsed.
+ * @param before  `SymbolEntry.signature` before the change.
+ * @param after   `SymbolEntry.signature` after the change.
+ */
+export function diffSignatures(kind: SymbolKind, before: string, after: string): SignatureDiff {
+    let changes: string[] | undefined;
+    try {
+        changes = diffByKind(kind, before, after);
+    } catch {
+        changes = undefined;
+    }
+    if (!changes || changes.length === 0) {
+        changes = [`signature ${code(before)} → ${code(after)}`];
+    }
+    return { before, after, changes };
+}
@@ -0,0 +1,59 @@
+import { SymbolIndex, findSymbolsTouchedByHunk } from '../indexing/symbolIndex';
+import { DiffHunk, getStagedDiffHunks } from '../git/diffParser';
+import { readStagedContent } from '../git/stagedSnapshot';
+import { localChangeSource } from '../git/diffSource';
+
+/**
+ * The unstaged edits inside impacted symbols: for every symbol of
+ * `impactedIds` that a hunk of `git diff` (the working tree against the
+ * index) touches, those hunks.
+ *
+ * A staged change whose dependents are being fixed in the working tree
+ * breaks the build when it is committed on its own — these are the fixes
+ * left out of the commit.  A hunk counts against every impacted symbol it
+ * touches, so an edit inside a method also counts against its class.
+ *
+ * Positions come from `symbolIndex`, which must describe the files as they
+ * are on disk — the live index, not a staged snapshot.  Untracked files
+ * have no hunks.
+ *
+ * @param symbolIndex         The live symbol index.
+ * @param impactedIds         Direct and indirect impact of the staged change.
+ * @param workspaceRootFsPath Absolute path to the repo / workspace root.
+ */
+export async function findUnstagedEdits(
+    symbolIndex: SymbolIndex,
+    impactedIds: string[],
+    workspaceRootFsPath: string,
+): Promise<Map<string, DiffHunk[]>> {
+    const result   = new Map<string, DiffHunk[]>();
+    const impacted = new Set(impactedIds);
+    const files    = new Set(impactedIds.flatMap(id => symbolIndex.get(id)?.filePath ?? []));
+    if (files.size === 0) { return result; }
+
+    const unstaged = localChangeSource('unstaged');
+    const hunksByFile = new Map<string, DiffHunk[]>();
+    for (const hunk of await getStagedDiffHunks(workspaceRootFsPath, unstaged)) {
+        if (!files.has(hunk.absoluteFilePath)) { continue; }
+        let list = hunksByFile.get(hunk.absoluteFilePath);
+        if (!list) { list = []; hunksByFile.set(hunk.absoluteFilePath, list); }
+        list.push(hunk);
+    }
+
+    for (const [filePath, hunks] of hunksByFile) {
+        const content = await readStagedContent(workspaceRootFsPath, filePath, unstaged);
+        if (content === null) { continue; }
+        for (const hunk of hunks) {
+            const touched = findSymbolsTouchedByHunk(symbolIndex, filePath, content, hunk.newStartLine, hunk.newLineCount);
+            for (const sym of touched) {
+                if (!impacted.has(sym.id)) { continue; }
+                let list = result.get(sym.id);
+                if (!list) { list = []; result.set(sym.id, list); }
+                list.push(hunk);
+            }
+        }
+    }
+
+    console.log(`[RippleCheck] Unstaged edits — ${result.size} impacted symbol(s) in ${hunksByFile.size} file(s)`);
+    return result;
+}
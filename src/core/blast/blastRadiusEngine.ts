@@ -1,9 +1,16 @@
 import { Project } from 'ts-morph';
-import { SymbolIndex, findSymbolsInCharRange, diffLinesToCharRange } from '../indexing/symbolIndex';
-import { DependencyGraph } from '../graph/types';
-import { analyzeStagedChanges } from '../git/stagedAnalyzer';
-import { getStagedDiffHunks } from '../git/diffParser';
+import { SymbolIndex, findSymbolsTouchedByHunk } from '../indexing/symbolIndex';
+import { isOptionalMember } from '../indexing/symbolExtractor';
+import { DependencyGraph, EdgeKind, EdgeUsage } from '../graph/types';
+import { getEdgeKinds, getEdgeUsage, edgeUsageOf } from '../graph/graphStore';
+import { analyzeStagedChanges, loadRevisionSnapshot, restoreWorkspaceFiles } from '../git/stagedAnalyzer';
+import { DiffHunk, getStagedDiffHunks } from '../git/diffParser';
 import { getStagedFiles, readStagedContent } from '../git/stagedSnapshot';
+import { DiffSource, RevisionRange, STAGED_SOURCE, WorkingTreeChanges } from '../git/diffSource';
+import { SignatureCompatibility } from '../analysis/signatureCompatibility';
+import { SignatureDiff } from '../analysis/signatureDiff';
+import { CompileVerification, verifyStagedCompilation } from '../analysis/compileVerifier';
+import { findUnstagedEdits } from '../analysis/unstagedEdits';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -15,13 +22,25 @@ export type PropagationMode = 'shallow' | 'deep';
  * Why a symbol was chosen as a blast-radius root.
  *
  * - `body-change`       : Lines inside the symbol changed but its public API
- *                         (signature hash) did not.  Only direct callers see
- *                         risk.  Propagation stops at depth 1.
+ *                         (signature hash) did not.  Only direct runtime
+ *                         users see risk — type-only references are skipped.
+ *                         Propagation stops at depth 1.
  * - `signature-ripple`  : The symbol's public API changed (return type, param
- *                         types, etc.).  Every transitive dependent is at risk.
+ *                         types, etc.) in a breaking or potentially-breaking
+ *                         way.  Every transitive dependent is at risk.
  *                         Propagation is unlimited.
+ * - `compatible-change` : The public API changed, but the type checker found
+ *                         every existing use still valid (e.g. a new optional
+ *                         parameter).  Only direct dependents — type-only
+ *                         ones included — see risk.  Propagation stops at
+ *                         depth 1.
  * - `deleted`           : The symbol no longer exists in the staged snapshot.
  *                         All callers are now broken.  Propagation is unlimited.
+ * - `moved`             : The symbol was moved to another file and/or renamed
+ *                         (`ImpactRoot.movedTo`).  Only dependents that still
+ *                         reference the old location are broken; those whose
+ *                         imports were updated in the same change are not.
+ *                         Propagation is unlimited.
  * - `renamed`           : The file containing the symbol was renamed / moved.
  *                         Module-path identity changed, so every consumer that
  *                         has not yet updated its import is broken.  All symbols
@@ -29,29 +48,65 @@ export type PropagationMode = 'shallow' | 'deep';
  *                         become ghosts and propagate independently.
  *                         Propagation is unlimited.
  */
-export type RootReason = 'body-change' | 'signature-ripple' | 'deleted' | 'renamed';
+export type RootReason = 'body-change' | 'compatible-change' | 'signature-ripple' | 'deleted' | 'moved' | 'renamed';
 
 /**
  * Priority used during root deduplication.  When the same symbol appears in
  * multiple source sets (e.g. both a signature-ripple AND a body-change because
  * a hunk touched its signature), the highest-priority reason wins.
  *
- * deleted > signature-ripple > renamed > body-change
+ * deleted > signature-ripple > moved > renamed > compatible-change > body-change
  *
  * Exported so `virtualDiff.ts` and `predictiveEngine.ts` can reuse the same
  * deduplication logic without duplicating the priority table.
  */
 export const REASON_PRIORITY: Record<RootReason, number> = {
-    'deleted':          3,
-    'signature-ripple': 2,
-    'renamed':          1,
-    'body-change':      0,
+    'deleted':           5,
+    'signature-ripple':  4,
+    'moved':             3,
+    'renamed':           2,
+    'compatible-change': 1,
+    'body-change':       0,
+};
+
+/**
+ * Which dependency edges a root's impact travels through, by reason.
+ *
+ * - `all`   : every edge.  A deleted / moved / renamed symbol or a changed API breaks
+ *             type-only users as surely as runtime callers.
+ * - `value` : value-position edges only.  A body-only change is invisible to
+ *             code that merely names the symbol in a type annotation or an
+ *             `implements` clause, so type-only dependents are not at risk.
+ */
+export type EdgePolicy = 'all' | 'value';
+
+export const REASON_EDGE_POLICY: Record<RootReason, EdgePolicy> = {
+    'deleted':           'all',
+    'signature-ripple':  'all',
+    'moved':             'all',
+    'renamed':           'all',
+    'compatible-change': 'all',
+    'body-change':       'value',
 };
 
 export interface ImpactRoot {
     symbolId: string;
     propagationMode: PropagationMode;
     reason: RootReason;
+    /**
+     * For `signature-ripple` and `compatible-change` roots classified by
+     * `classifySignatureChanges`: how the API change affects existing users.
+     */
+    compatibility?: SignatureCompatibility;
+    /** For `signature-ripple` and `compatible-change` roots: what changed in the signature. */
+    signatureDiff?: SignatureDiff;
+    /** For `moved` roots: the symbol's ID at its new location / under its new name. */
+    movedTo?: string;
+    /**
+     * For `moved` roots: the dependents that still reference the old
+     * location.  Traversal from the root follows only these.
+     */
+    brokenDependents?: string[];
 }
 
 export interface BlastRadiusResult {
@@ -87,10 +142,58 @@ export interface BlastRadiusResult {
      * an arbitrarily-chosen single path.
      */
     paths: Map<string, string[][]>;
+
+    /**
+     * Edge kinds along every path in `paths`, index-aligned with it:
+     * `pathKinds.get(id)[p][i]` holds the kinds of the hop from `path[i]` to
+     * `path[i + 1]` — how `path[i + 1]` depends on `path[i]` ("calls",
+     * "uses type", "extends", …).  A hop whose edge was never tagged has [].
+     */
+    pathKinds: Map<string, EdgeKind[][][]>;
+
+    /**
+     * How every impacted symbol is reached: `value` when at least one of its
+     * paths is made of runtime (value-position) edges only, `type` when every
+     * path crosses a type-only edge — it can break at compile time but its
+     * runtime behaviour is unaffected.
+     */
+    usageMap: Map<string, EdgeUsage>;
+
+    /**
+     * For every impacted symbol that renders a component its impact comes
+     * through: the props it passes there, by attribute name (`...` for a
+     * spread).  Symbols that render nothing on their paths have no entry.
+     */
+    renderedProps: Map<string, string[]>;
+
+    /**
+     * For every impacted symbol that calls an overridden method through its
+     * base type (`repo.save()` on a `Repository`): the overrides, down the
+     * whole override chain, the call may dispatch to at runtime.  Symbols
+     * whose paths end in no such call have no entry.
+     */
+    dispatchTargets: Map<string, string[]>;
+
+    /**
+     * The type checker's verdict on every impacted symbol in the staged
+     * snapshot — breaks compilation (with the errors) or still type-checks.
+     * Only set by `computeStagedBlastRadius` when `verifyCompilation` is on.
+     */
+    compileVerification?: Map<string, CompileVerification>;
+
+    /**
+     * For every impacted symbol that has unstaged edits inside it — likely
+     * the other half of the change, left out of the commit: those hunks of
+     * the working tree against the index.  Only set by
+     * `computeStagedBlastRadius`.
+     */
+    unstagedEdits?: Map<string, DiffHunk[]>;
+
     /**
      * The dependency graph as it will look after the staged changes are
-     * committed.  Only set by `computeStagedBlastRadius`; `traverseImpact`
-     * leaves this undefined.
+     * committed (for a revision range: as it is at the range's head; for
+     * the working tree: as it is on disk).  Only set by the diff-based
+     * `compute*BlastRadius` functions; `traverseImpact` leaves this undefined.
      *
      * Pass to `persistDependencyGraph(stagedGraph, workspaceRoot, 'future')`
      * to write the future section of graph.json so the webview can compare
@@ -116,7 +219,17 @@ function cloneGraph(graph: DependencyGraph): DependencyGraph {
         for (const [k, v] of m) { out.set(k, new Set(v)); }
         return out;
     };
-    return { forward: cloneMap(graph.forward), reverse: cloneMap(graph.reverse) };
+    const edgeKinds = new Map<string, Map<string, Set<EdgeKind>>>();
+    for (const [k, targets] of graph.edgeKinds) {
+        const out = new Map<string, Set<EdgeKind>>();
+        for (const [to, kinds] of targets) { out.set(to, new Set(kinds)); }
+        edgeKinds.set(k, out);
+    }
+    const renderProps = new Map<string, Map<string, Set<string>>>();
+    for (const [k, targets] of graph.renderProps) {
+        renderProps.set(k, cloneMap(targets));
+    }
+    return { forward: cloneMap(graph.forward), reverse: cloneMap(graph.reverse), edgeKinds, renderProps };
 }
 
 // ---------------------------------------------------------------------------
@@ -133,15 +246,19 @@ function cloneGraph(graph: DependencyGraph): DependencyGraph {
  *    detects signature changes, and updates the live symbol index + graph.
  *    Returns ripple roots (API changes) and ghost symbols (deletions).
  *
- * 2. **Diff-hunk → symbol mapping** (`getStagedDiffHunks` + `findSymbolsInCharRange`):
+ * 2. **Diff-hunk → symbol mapping** (`getStagedDiffHunks` + `findSymbolsTouchedByHunk`):
  *    Parses `git diff --cached --unified=0` to get exact changed-line ranges,
  *    converts them to character offsets using the staged file content, then
- *    looks up every overlapping symbol in the now-updated index.
+ *    looks up every overlapping symbol in the now-updated index.  A
+ *    pure-deletion hunk maps to the symbols enclosing the deletion point.
  *
  * 3. **Impact-root classification**:
- *    - `deleted`          → deep  (ghost symbols)
- *    - `signature-ripple` → deep  (API changed)
- *    - `body-change`      → shallow (implementation changed only)
+ *    - `deleted`           → deep  (ghost symbols)
+ *    - `signature-ripple`  → deep  (API changed — breaking or potentially breaking)
+ *    - `compatible-change` → shallow (API changed, all existing uses still valid)
+ *    - `body-change`       → shallow (implementation changed only)
+ *    Each reason also picks an edge policy (`REASON_EDGE_POLICY`): body
+ *    changes only travel through value-position (runtime) edges.
  *
  * 4. **Multi-source BFS** (two passes):
  *    - Pass 1: unlimited BFS from all deep roots.
@@ -150,16 +267,130 @@ function cloneGraph(graph: DependencyGraph): DependencyGraph {
  *
  * 5. **Path reconstruction** from parentMap.
  *
+ * 6. **Compile verification** (optional, `verifyStagedCompilation`): the
+ *    impacted symbols are type-checked against the staged snapshot.
+ *
+ * 7. **Unstaged edits** (`findUnstagedEdits`): impacted symbols that are
+ *    being edited in the working tree but not staged are flagged with the
+ *    hunks, which `stageHunks` can add to the commit.
+ *
  * @param project              The live ts-morph project.
  * @param symbolIndex          The live symbol index — read-only, never mutated.
  * @param graph                The live dependency graph — used for BFS traversal only.
  * @param workspaceRootFsPath  Absolute path to the repo / workspace root.
+ * @param verifyCompilation    Run step 6 and set `compileVerification`.
  */
 export async function computeStagedBlastRadius(
     project: Project,
     symbolIndex: SymbolIndex,
     graph: DependencyGraph,
     workspaceRootFsPath: string,
+    verifyCompilation = false,
+): Promise<BlastRadiusResult> {
+    const result = await computeDiffBlastRadius(
+        project, symbolIndex, graph, workspaceRootFsPath, STAGED_SOURCE, verifyCompilation,
+    );
+
+    // ── Step 7: impacted symbols with unstaged edits ─────────────────────────
+    // The live index describes the files on disk, where the unstaged hunks are.
+    result.unstagedEdits = await findUnstagedEdits(
+        symbolIndex, [...result.directImpact, ...result.indirectImpact], workspaceRootFsPath,
+    );
+    return result;
+}
+
+/**
+ * Compute the blast radius of the changes between two git revisions — a
+ * feature branch against `main`, or a single historical commit.
+ *
+ * Runs the same pipeline as `computeStagedBlastRadius` with the range's
+ * `head` as the snapshot, against the symbol index and graph as they were
+ * at its `base`: copies of the live ones in which every changed file is
+ * rewound to `base` (`loadRevisionSnapshot`).  Dependents are found in that
+ * base graph — the code that relied on the symbols before the change.
+ * Files the range does not touch are taken from the workspace.
+ *
+ * The project's copies of the changed files are reloaded from disk
+ * afterwards.  Compile verification is not available for a range.
+ *
+ * @param project              The live ts-morph project.
+ * @param symbolIndex          The live symbol index — read-only, never mutated.
+ * @param graph                The live dependency graph — read-only, never mutated.
+ * @param workspaceRootFsPath  Absolute path to the repo / workspace root.
+ * @param range                The revisions to compare (`resolveRevisionRange`).
+ */
+export async function computeRangeBlastRadius(
+    project: Project,
+    symbolIndex: SymbolIndex,
+    graph: DependencyGraph,
+    workspaceRootFsPath: string,
+    range: RevisionRange,
+): Promise<BlastRadiusResult> {
+    return computeRewoundBlastRadius(project, symbolIndex, graph, workspaceRootFsPath, range, range.base);
+}
+
+/**
+ * Compute the blast radius of the edits on disk — everything changed but
+ * not staged yet (`includeStaged` off: disk against the index), or
+ * everything changed since the last commit (`includeStaged` on: disk
+ * against `HEAD`), across every modified file at once, including those
+ * written by formatters or code generators.
+ *
+ * Works like `computeRangeBlastRadius`, with the index or `HEAD` as the
+ * base and the files on disk as the snapshot.  Untracked files count as
+ * added, so a symbol moved into a new file is still seen as moved.
+ *
+ * @param project              The live ts-morph project.
+ * @param symbolIndex          The live symbol index — read-only, never mutated.
+ * @param graph                The live dependency graph — read-only, never mutated.
+ * @param workspaceRootFsPath  Absolute path to the repo / workspace root.
+ * @param changes              Which edits to compare against what.
+ */
+export async function computeWorkingTreeBlastRadius(
+    project: Project,
+    symbolIndex: SymbolIndex,
+    graph: DependencyGraph,
+    workspaceRootFsPath: string,
+    changes: WorkingTreeChanges,
+): Promise<BlastRadiusResult> {
+    const base = changes.includeStaged ? 'HEAD' : '';
+    return computeRewoundBlastRadius(project, symbolIndex, graph, workspaceRootFsPath, changes, base);
+}
+
+/**
+ * Steps 1–5 of `computeStagedBlastRadius` for the changes of `source`, on
+ * copies of the index and graph rewound to `baseRevision`.
+ */
+async function computeRewoundBlastRadius(
+    project: Project,
+    symbolIndex: SymbolIndex,
+    graph: DependencyGraph,
+    workspaceRootFsPath: string,
+    source: DiffSource,
+    baseRevision: string,
+): Promise<BlastRadiusResult> {
+    const changedFiles = await getStagedFiles(workspaceRootFsPath, source);
+    const baseIndex    = new Map(symbolIndex);
+    const baseGraph    = cloneGraph(graph);
+    try {
+        await loadRevisionSnapshot(project, baseIndex, baseGraph, workspaceRootFsPath, changedFiles, baseRevision);
+        return await computeDiffBlastRadius(project, baseIndex, baseGraph, workspaceRootFsPath, source, false);
+    } finally {
+        restoreWorkspaceFiles(project, changedFiles);
+    }
+}
+
+/**
+ * Steps 1–6 of `computeStagedBlastRadius` for the changes of `source`.
+ * `symbolIndex` and `graph` are the state before the change.
+ */
+async function computeDiffBlastRadius(
+    project: Project,
+    symbolIndex: SymbolIndex,
+    graph: DependencyGraph,
+    workspaceRootFsPath: string,
+    source: DiffSource,
+    verifyCompilation: boolean,
 ): Promise<BlastRadiusResult> {
     // ── Shadow copies — staged analysis must NEVER touch live state ──────────
     //
@@ -177,7 +408,7 @@ export async function computeStagedBlastRadius(
     // Reads git-index content for every staged file, re-parses AST, updates
     // shadowIndex and shadowGraph to reflect what will actually be committed.
     const stagedResult = await analyzeStagedChanges(
-        project, shadowIndex, shadowGraph, workspaceRootFsPath,
+        project, shadowIndex, shadowGraph, workspaceRootFsPath, source,
     );
 
     const rippleRootSet = new Set(stagedResult.rippleRoots);
@@ -187,7 +418,7 @@ export async function computeStagedBlastRadius(
     // git diff --cached --name-status (already called inside analyzeStagedChanges)
     // is re-read here so we don't need to thread extra data through the return type.
     // The call is fast (git reads from the in-memory index).
-    const allStagedFiles   = await getStagedFiles(workspaceRootFsPath);
+    const allStagedFiles   = await getStagedFiles(workspaceRootFsPath, source);
     const renamedNewPaths  = new Set(
         allStagedFiles
             .filter(e => e.status === 'R' || e.status === 'C')
@@ -197,7 +428,7 @@ export async function computeStagedBlastRadius(
     // ── Step 2: diff-hunk → changed symbols ─────────────────────────────────
     // Parse `git diff --cached --unified=0` and map each changed line range to
     // the symbols that overlap it in the staged index.
-    const hunks = await getStagedDiffHunks(workspaceRootFsPath);
+    const hunks = await getStagedDiffHunks(workspaceRootFsPath, source);
 
     // Group hunks by file to call readStagedContent once per file (not per hunk).
     const hunksByFile = new Map<string, typeof hunks>();
@@ -208,10 +439,11 @@ export async function computeStagedBlastRadius(
     }
 
     const changedSymbolIds = new Set<string>();
+    const grownTypeIds     = new Set<string>();
 
     for (const [absPath, fileHunks] of hunksByFile) {
         // Read staged content for this file (ground truth: what will be committed).
-        const stagedContent = await readStagedContent(workspaceRootFsPath, absPath);
+        const stagedContent = await readStagedContent(workspaceRootFsPath, absPath, source);
         if (stagedContent === null) { continue; }
 
         // Collect all symbols touched by any hunk in this file into a local set
@@ -221,13 +453,46 @@ export async function computeStagedBlastRadius(
         // set keeps changedSymbolIds clean and makes the intent explicit.
         const fileSymbolIds = new Set<string>();
         for (const hunk of fileHunks) {
-            const endLine   = hunk.newStartLine + hunk.newLineCount - 1;
-            const { startPos, endPos } = diffLinesToCharRange(stagedContent, hunk.newStartLine, endLine);
-            // shadowIndex — staged symbol positions, not live positions.
-            const symbols = findSymbolsInCharRange(shadowIndex, absPath, startPos, endPos);
-            for (const sym of symbols) { fileSymbolIds.add(sym.id); }
+            // shadowIndex — staged symbol positions, not live positions.  A
+            // pure deletion (`+l,0`) leaves no line behind, so it touches the
+            // symbols enclosing the point the lines were removed from.
+            const symbols = findSymbolsTouchedByHunk(
+                shadowIndex, absPath, stagedContent, hunk.newStartLine, hunk.newLineCount,
+            );
+            // The module symbol spans the whole file, so it is the root only
+            // for hunks that touch nothing but top-level code.
+            const declarations = symbols.filter(sym => sym.kind !== 'module');
+            for (const sym of declarations.length > 0 ? declarations : symbols) { fileSymbolIds.add(sym.id); }
+        }
+
+        // An edited interface or enum member also overlaps its parent's range.
+        // The member is the precise root; keeping the parent would mark every
+        // user of the type as a direct dependent.  Edits outside any member
+        // (e.g. the `extends` clause) still leave the parent as a root.
+        //
+        // Adding a member is different: every implementer of the interface
+        // lacks a new required member, and every exhaustive `switch` or
+        // `Record<Enum, …>` lacks a new enum member.  Those parents stay
+        // and become signature roots; a new optional member stays child-only.
+        const fileGrownIds = new Set<string>();
+        for (const id of fileSymbolIds) {
+            const entry    = shadowIndex.get(id);
+            const parentId = entry?.parentId;
+            if (!entry || !parentId || symbolIndex.has(id) || !symbolIndex.has(parentId)) { continue; }
+            const parent = shadowIndex.get(parentId);
+            if (parent?.kind === 'enum' || (parent?.kind === 'interface' && !isOptionalMember(entry))) {
+                fileGrownIds.add(parentId);
+            }
+        }
+        for (const id of [...fileSymbolIds]) {
+            const parentId = shadowIndex.get(id)?.parentId;
+            const parent   = parentId ? shadowIndex.get(parentId) : undefined;
+            if (parent && (parent.kind === 'interface' || parent.kind === 'enum') && !fileGrownIds.has(parent.id)) {
+                fileSymbolIds.delete(parent.id);
+            }
         }
         for (const id of fileSymbolIds) { changedSymbolIds.add(id); }
+        for (const id of fileGrownIds) { grownTypeIds.add(id); }
     }
 
     // ── Step 3: collect all root candidates, then deduplicate ────────────────
@@ -236,7 +501,7 @@ export async function computeStagedBlastRadius(
     // into a flat array.  A single deduplication pass then keeps the
     // highest-priority reason for each symbolId:
     //
-    //   deleted > signature-ripple > renamed > body-change
+    //   deleted > signature-ripple > moved > renamed > compatible-change > body-change
     //
     // Separating collection from deduplication means adding a new source never
     // requires touching priority-guard logic scattered across multiple loops.
@@ -247,8 +512,28 @@ export async function computeStagedBlastRadius(
         candidates.push({ symbolId: id, propagationMode: 'deep', reason: 'deleted' });
     }
 
-    // Signature-ripple symbols — API changed.  Deep.
+    // Moved / renamed symbols — the old ID is the root.  Deep, but only
+    // through the dependents that still point at the old location.
+    for (const [id, newId] of stagedResult.moves) {
+        candidates.push({
+            symbolId:         id,
+            propagationMode:  'deep',
+            reason:           'moved',
+            movedTo:          newId,
+            brokenDependents: findBrokenDependents(id, newId, graph, shadowGraph, stagedResult.moves),
+        });
+    }
+
+    // Signature-ripple symbols — API changed.  Deep, unless the type checker
+    // found the change compatible with every existing use.
     for (const id of rippleRootSet) {
+        candidates.push(signatureChangeRoot(
+            id, stagedResult.compatibility.get(id), stagedResult.signatureDiffs.get(id),
+        ));
+    }
+
+    // Interfaces / enums that gained a member their users must handle.  Deep.
+    for (const id of grownTypeIds) {
         candidates.push({ symbolId: id, propagationMode: 'deep', reason: 'signature-ripple' });
     }
 
@@ -265,6 +550,77 @@ export async function computeStagedBlastRadius(
     }
 
     // Deduplicate: one entry per symbolId, highest REASON_PRIORITY wins.
+    const roots = dedupeRoots(candidates);
+
+    // ── Step 4 + 5: BFS on the LIVE graph ───────────────────────────────────
+    // The staged snapshot tells us WHAT changed; the live graph tells us WHO
+    // depends on it right now.  We never pass shadowGraph here.
+    //
+    // shadowGraph is returned as stagedGraph so the caller can persist it
+    // as the 'future' section of graph.json via persistDependencyGraph.
+    const result = traverseImpact(roots, graph);
+
+    // ── Step 6: type-check the impacted symbols ──────────────────────────────
+    // The graph says who MIGHT break; the checker says who does.
+    const compileVerification = verifyCompilation
+        ? await verifyStagedCompilation(project, [...result.directImpact, ...result.indirectImpact], workspaceRootFsPath)
+        : undefined;
+
+    return { ...result, stagedGraph: shadowGraph, compileVerification };
+}
+
+/**
+ * Live dependents of a moved symbol that were NOT updated to its new ID.
+ * A dependent is updated when, in the staged graph, it (or its own moved
+ * counterpart) references `newId` and no longer references `oldId`.
+ */
+function findBrokenDependents(
+    oldId: string,
+    newId: string,
+    graph: DependencyGraph,
+    stagedGraph: DependencyGraph,
+    moves: Map<string, string>,
+): string[] {
+    return [...graph.reverse.get(oldId) ?? []].filter(dep => {
+        const refs = stagedGraph.forward.get(moves.get(dep) ?? dep);
+        return !refs?.has(newId) || refs.has(oldId);
+    });
+}
+
+/**
+ * A view of `graph` in which every root carrying `brokenDependents` keeps
+ * only those as its reverse edges.  The graph itself is not mutated.
+ */
+function restrictToBrokenDependents(roots: ImpactRoot[], graph: DependencyGraph): DependencyGraph {
+    const restricted = roots.filter(r => r.brokenDependents !== undefined);
+    if (restricted.length === 0) { return graph; }
+    const reverse = new Map(graph.reverse);
+    for (const root of restricted) {
+        reverse.set(root.symbolId, new Set(root.brokenDependents));
+    }
+    return { ...graph, reverse };
+}
+
+/**
+ * Root for a symbol whose signature hash changed.  A change the type checker
+ * found compatible only risks direct dependents; anything else — including
+ * an unclassified change — ripples through every transitive dependent.
+ */
+function signatureChangeRoot(
+    symbolId: string,
+    compatibility?: SignatureCompatibility,
+    signatureDiff?: SignatureDiff,
+): ImpactRoot {
+    return compatibility === 'compatible'
+        ? { symbolId, propagationMode: 'shallow', reason: 'compatible-change', compatibility, signatureDiff }
+        : { symbolId, propagationMode: 'deep', reason: 'signature-ripple', compatibility, signatureDiff };
+}
+
+/**
+ * Keep one root per symbolId — the candidate with the highest
+ * `REASON_PRIORITY` wins.  First-seen order is preserved.
+ */
+export function dedupeRoots(candidates: ImpactRoot[]): ImpactRoot[] {
     const rootMap = new Map<string, ImpactRoot>();
     for (const candidate of candidates) {
         const existing = rootMap.get(candidate.symbolId);
@@ -272,16 +628,87 @@ export async function computeStagedBlastRadius(
             rootMap.set(candidate.symbolId, candidate);
         }
     }
+    return Array.from(rootMap.values());
+}
 
-    const roots = Array.from(rootMap.values());
+/**
+ * Combine the results of several workspace folders into one.
+ *
+ * Each folder's analysis only sees its own changes, and a range or
+ * working-tree analysis traverses its own graph rewound to the base
+ * revision, so the per-folder impact is merged rather than traversed again
+ * over the live graph.  Every folder traverses the whole graph from its own
+ * roots, so the smallest depth across folders is a symbol's true minimum
+ * distance; its paths from every folder's roots are kept.  A root of one
+ * folder is not reported as impacted by another.
+ *
+ * `stagedGraph` is dropped when there is more than one folder — each folder
+ * persists its own future graph.  Every folder verifies compilation of its
+ * own files and checks its own working tree for unstaged edits, so the
+ * verdicts and edits are combined.
+ */
+export function mergeBlastRadiusResults(results: BlastRadiusResult[]): BlastRadiusResult {
+    if (results.length === 1) { return results[0]; }
+    const roots   = dedupeRoots(results.flatMap(r => r.roots));
+    const rootIds = new Set(roots.map(r => r.symbolId));
+    const merged: BlastRadiusResult = {
+        roots, directImpact: [], indirectImpact: [], depthMap: new Map(),
+        paths: new Map(), pathKinds: new Map(), usageMap: new Map(), renderedProps: new Map(),
+        dispatchTargets: new Map(),
+    };
 
-    // ── Step 4 + 5: BFS on the LIVE graph ───────────────────────────────────
-    // The staged snapshot tells us WHAT changed; the live graph tells us WHO
-    // depends on it right now.  We never pass shadowGraph here.
-    //
-    // shadowGraph is returned as stagedGraph so the caller can persist it
-    // as the 'future' section of graph.json via persistDependencyGraph.
-    return { ...traverseImpact(roots, graph), stagedGraph: shadowGraph };
+    for (const result of results) {
+        for (const [id, depth] of result.depthMap) {
+            if (rootIds.has(id)) { continue; }
+            merged.depthMap.set(id, Math.min(depth, merged.depthMap.get(id) ?? Infinity));
+            appendPaths(merged, result, id);
+            const usage = result.usageMap.get(id);
+            if (usage && merged.usageMap.get(id) !== 'value') { merged.usageMap.set(id, usage); }
+            mergeSortedNames(merged.renderedProps, id, result.renderedProps.get(id));
+            mergeSortedNames(merged.dispatchTargets, id, result.dispatchTargets.get(id));
+        }
+    }
+    for (const [id, depth] of merged.depthMap) {
+        if (depth === 1) { merged.directImpact.push(id);   }
+        else             { merged.indirectImpact.push(id); }
+    }
+
+    const verified = results.filter(r => r.compileVerification !== undefined);
+    if (verified.length > 0) {
+        merged.compileVerification = new Map(verified.flatMap(r => [...r.compileVerification!]));
+    }
+    const checked = results.filter(r => r.unstagedEdits !== undefined);
+    if (checked.length > 0) {
+        merged.unstagedEdits = new Map(checked.flatMap(r => [...r.unstagedEdits!]));
+    }
+    return merged;
+}
+
+/**
+ * Append the paths `from` holds for `id` to those of `into`, with their
+ * edge kinds so both stay index-aligned.  A path already there — the same
+ * root reached in two folders' results — is skipped.
+ */
+function appendPaths(into: BlastRadiusResult, from: BlastRadiusResult, id: string): void {
+    const paths = into.paths.get(id) ?? [];
+    const kinds = into.pathKinds.get(id) ?? [];
+    const seen  = new Set(paths.map(path => path.join('\n')));
+    (from.paths.get(id) ?? []).forEach((path, i) => {
+        if (seen.has(path.join('\n'))) { return; }
+        seen.add(path.join('\n'));
+        paths.push(path);
+        kinds.push(from.pathKinds.get(id)?.[i] ?? []);
+    });
+    if (paths.length > 0) {
+        into.paths.set(id, paths);
+        into.pathKinds.set(id, kinds);
+    }
+}
+
+/** Add `names` to the sorted, duplicate-free list `map` holds for `id`. */
+function mergeSortedNames(map: Map<string, string[]>, id: string, names: string[] | undefined): void {
+    if (!names || names.length === 0) { return; }
+    map.set(id, Array.from(new Set([...map.get(id) ?? [], ...names])).sort());
 }
 
 // ---------------------------------------------------------------------------
@@ -309,19 +736,20 @@ export async function computeStagedBlastRadius(
  * @param removedIds          IDs of symbols deleted from the file in the editor.
  * @param preRemovalDependents Map of removedId → [dependentIds] captured before removal.
  * @param graph               The live dependency graph (not mutated).
+ * @param compatibility       Verdicts from `classifySignatureChanges` for `rippleIds`;
+ *                            unclassified ripples are treated as breaking.
+ * @param signatureDiffs      Before / after signatures for `rippleIds`.
  */
 export function computeInEditorBlastRadius(
     rippleIds: string[],
     removedIds: string[],
     preRemovalDependents: Map<string, string[]>,
     graph: DependencyGraph,
+    compatibility: Map<string, SignatureCompatibility> = new Map(),
+    signatureDiffs: Map<string, SignatureDiff> = new Map(),
 ): BlastRadiusResult {
     const roots: ImpactRoot[] = [
-        ...rippleIds.map(id => ({
-            symbolId: id,
-            propagationMode: 'deep' as const,
-            reason: 'signature-ripple' as const,
-        })),
+        ...rippleIds.map(id => signatureChangeRoot(id, compatibility.get(id), signatureDiffs.get(id))),
         ...removedIds.filter(id => preRemovalDependents.has(id)).map(id => ({
             symbolId: id,
             propagationMode: 'deep' as const,
@@ -330,7 +758,11 @@ export function computeInEditorBlastRadius(
     ];
 
     if (roots.length === 0) {
-        return { roots: [], directImpact: [], indirectImpact: [], depthMap: new Map(), paths: new Map() };
+        return {
+            roots: [], directImpact: [], indirectImpact: [], depthMap: new Map(),
+            paths: new Map(), pathKinds: new Map(), usageMap: new Map(), renderedProps: new Map(),
+            dispatchTargets: new Map(),
+        };
     }
 
     // Build a shallow-clone of the live graph and inject the pre-removal reverse
@@ -341,7 +773,7 @@ export function computeInEditorBlastRadius(
             tempReverse.set(removedId, new Set(deps));
         }
     }
-    const tempGraph: DependencyGraph = { forward: graph.forward, reverse: tempReverse };
+    const tempGraph: DependencyGraph = { ...graph, reverse: tempReverse };
 
     return traverseImpact(roots, tempGraph);
 }
@@ -365,10 +797,15 @@ export function computeInEditorBlastRadius(
  * This guarantees that staging a shallow body-change alongside a deep API
  * change never reclassifies a transitively-impacted symbol as "direct".
  *
+ * Each root only follows the edges its reason's `REASON_EDGE_POLICY` allows,
+ * so a body-change root never reaches its type-only dependents.  A root
+ * carrying `brokenDependents` (a moved symbol) only reaches those.
+ *
  * Exported so `predictiveEngine.ts` can feed a virtual diff into the same BFS
  * without duplicating traversal logic.
  */
-export function traverseImpact(roots: ImpactRoot[], graph: DependencyGraph): BlastRadiusResult {
+export function traverseImpact(roots: ImpactRoot[], fullGraph: DependencyGraph): BlastRadiusResult {
+    const graph        = restrictToBrokenDependents(roots, fullGraph);
     const rootSet      = new Set(roots.map(r => r.symbolId));
     const deepRoots    = roots.filter(r => r.propagationMode === 'deep');
     const shallowRoots = roots.filter(r => r.propagationMode === 'shallow');
@@ -385,7 +822,7 @@ export function traverseImpact(roots: ImpactRoot[], graph: DependencyGraph): Bla
     const perRootParentMaps = new Map<string, Map<string, string | null>>();
     for (const root of deepRoots) {
         const perRootParent = new Map<string, string | null>();
-        bfsUnlimited(root.symbolId, graph, deepDepthMap, perRootParent);
+        bfsUnlimited(root.symbolId, graph, REASON_EDGE_POLICY[root.reason], deepDepthMap, perRootParent);
         perRootParentMaps.set(root.symbolId, perRootParent);
     }
 
@@ -396,7 +833,9 @@ export function traverseImpact(roots: ImpactRoot[], graph: DependencyGraph): Bla
     for (const root of shallowRoots) {
         const dependents = graph.reverse.get(root.symbolId);
         if (!dependents) { continue; }
+        const policy = REASON_EDGE_POLICY[root.reason];
         for (const depId of dependents) {
+            if (!followsEdge(graph, policy, depId, root.symbolId)) { continue; }
             if (rootSet.has(depId))           { continue; } // skip other roots
             if (deepDepthMap.has(depId))      { continue; } // deep wins — not direct
             if (!shallowParentMap.has(depId)) {
@@ -438,15 +877,24 @@ export function traverseImpact(roots: ImpactRoot[], graph: DependencyGraph): Bla
     }
 
     // ── Reconstruct all explanation paths ─────────────────────────────────────
-    const paths = buildPaths(depthMap, perRootParentMaps, shallowParentMap);
+    const paths     = buildPaths(depthMap, perRootParentMaps, shallowParentMap);
+    const pathKinds = buildPathKinds(paths, graph);
+    const usageMap  = buildUsageMap(pathKinds);
+    const renderedProps   = buildRenderedProps(paths, graph);
+    const dispatchTargets = buildDispatchTargets(paths, pathKinds, graph);
 
-    return { roots, directImpact, indirectImpact, depthMap, paths };
+    return { roots, directImpact, indirectImpact, depthMap, paths, pathKinds, usageMap, renderedProps, dispatchTargets };
 }
 
 // ---------------------------------------------------------------------------
 // BFS helpers
 // ---------------------------------------------------------------------------
 
+/** Whether impact may travel from `toId` to its dependent `fromId` under `policy`. */
+function followsEdge(graph: DependencyGraph, policy: EdgePolicy, fromId: string, toId: string): boolean {
+    return policy === 'all' || getEdgeUsage(graph, fromId, toId) === 'value';
+}
+
 /**
  * Single-source FIFO BFS from `rootId`, fanning out through reverse edges
  * without depth limit.
@@ -464,6 +912,7 @@ export function traverseImpact(roots: ImpactRoot[], graph: DependencyGraph): Bla
 function bfsUnlimited(
     rootId: string,
     graph: DependencyGraph,
+    policy: EdgePolicy,
     globalDepthMap: Map<string, number>,
     perRootParent: Map<string, string | null>,
 ): void {
@@ -485,6 +934,7 @@ function bfsUnlimited(
         if (!dependents) { continue; }
 
         for (const depId of dependents) {
+            if (!followsEdge(graph, policy, depId, id)) { continue; }
             if (!localDepth.has(depId)) {
                 localDepth.set(depId, depth + 1);
                 perRootParent.set(depId, id);
@@ -552,3 +1002,99 @@ function buildPaths(
 
     return paths;
 }
+
+/**
+ * Look up the edge kinds of every hop of every path.  Paths run from the
+ * root towards its dependents, so hop `path[i] → path[i + 1]` is the forward
+ * edge `path[i + 1] → path[i]`.
+ */
+function buildPathKinds(paths: Map<string, string[][]>, graph: DependencyGraph): Map<string, EdgeKind[][][]> {
+    const pathKinds = new Map<string, EdgeKind[][][]>();
+    for (const [id, allPaths] of paths) {
+        pathKinds.set(id, allPaths.map(path =>
+            path.slice(1).map((dependentId, i) => getEdgeKinds(graph, dependentId, path[i])),
+        ));
+    }
+    return pathKinds;
+}
+
+/**
+ * `value` for a symbol with at least one path of runtime edges only,
+ * otherwise `type` (see `BlastRadiusResult.usageMap`).
+ */
+function buildUsageMap(pathKinds: Map<string, EdgeKind[][][]>): Map<string, EdgeUsage> {
+    const usageMap = new Map<string, EdgeUsage>();
+    for (const [id, allPaths] of pathKinds) {
+        const hasValuePath = allPaths.some(hops => hops.every(kinds => edgeUsageOf(kinds) === 'value'));
+        usageMap.set(id, hasValuePath ? 'value' : 'type');
+    }
+    return usageMap;
+}
+
+/**
+ * The props every impacted symbol passes to the components its impact comes
+ * through (see `BlastRadiusResult.renderedProps`): on each path, the last
+ * hop's target when the symbol renders it, or any component the symbol
+ * renders that depends on that target — a render site reached through the
+ * props interface member it sets still lists what it passes.
+ */
+function buildRenderedProps(paths: Map<string, string[][]>, graph: DependencyGraph): Map<string, string[]> {
+    const renderedProps = new Map<string, string[]>();
+    for (const [id, allPaths] of paths) {
+        const rendered = graph.renderProps.get(id);
+        if (!rendered) { continue; }
+        const props = new Set<string>();
+        let renders = false;
+        for (const path of allPaths) {
+            const target = path[path.length - 2];
+            if (target === undefined) { continue; }
+            for (const [componentId, passed] of rendered) {
+                if (componentId !== target && !graph.forward.get(componentId)?.has(target)) { continue; }
+                renders = true;
+                for (const prop of passed) { props.add(prop); }
+            }
+        }
+        if (renders) { renderedProps.set(id, Array.from(props).sort()); }
+    }
+    return renderedProps;
+}
+
+/** Every member overriding `memberId`, directly or further down the chain. */
+function collectOverrides(memberId: string, graph: DependencyGraph): Set<string> {
+    const overrides = new Set<string>();
+    const queue = [memberId];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        for (const depId of graph.reverse.get(id) ?? []) {
+            if (overrides.has(depId) || !getEdgeKinds(graph, depId, id).includes('override')) { continue; }
+            overrides.add(depId);
+            queue.push(depId);
+        }
+    }
+    return overrides;
+}
+
+/**
+ * The overrides every impacted symbol may dispatch to (see
+ * `BlastRadiusResult.dispatchTargets`): on each path whose last hop is a
+ * call, those of the called member.  An override calling `super.save()`
+ * runs the base member itself, so a hop that is also an override is skipped.
+ */
+function buildDispatchTargets(
+    paths: Map<string, string[][]>,
+    pathKinds: Map<string, EdgeKind[][][]>,
+    graph: DependencyGraph,
+): Map<string, string[]> {
+    const dispatchTargets = new Map<string, string[]>();
+    for (const [id, allPaths] of paths) {
+        const targets = new Set<string>();
+        allPaths.forEach((path, p) => {
+            const kinds = pathKinds.get(id)?.[p]?.[path.length - 2] ?? [];
+            if (!kinds.includes('call') || kinds.includes('override')) { return; }
+            for (const override of collectOverrides(path[path.length - 2], graph)) { targets.add(override); }
+        });
+        targets.delete(id);
+        if (targets.size > 0) { dispatchTargets.set(id, Array.from(targets).sort()); }
+    }
+    return dispatchTargets;
+}
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import { SymbolEntry } from '../indexing/symbolExtractor';
 import { SymbolIndex } from '../indexing/symbolIndex';
-import { DependencyGraph } from '../graph/types';
+import { DependencyGraph, EdgeKind } from '../graph/types';
 
 export interface CacheMetadata {
     projectHash: string;
@@ -31,17 +31,27 @@ export async function loadCachedDependencyGraph(workspaceRoot: vscode.Uri): Prom
     const raw = await readJson<Record<string, unknown>>(workspaceRoot, '.blastradius/graph.json');
     if (!raw) { return null; }
 
-    // Support the new sectioned format { present: { forward, reverse }, future: ... }
+    // Support the new sectioned format { present: { forward, reverse, kinds }, future: ... }
     // and the legacy flat format { forward, reverse } transparently.
     const graphData = (raw.present ?? raw) as {
         forward?: Record<string, string[]>;
         reverse?: Record<string, string[]>;
+        kinds?:   Record<string, Record<string, EdgeKind[]>>;
+        props?:   Record<string, Record<string, string[]>>;
     };
     if (!graphData.forward) { return null; }
 
     return {
         forward: new Map(Object.entries(graphData.forward).map(([k, v]) => [k, new Set(v)])),
         reverse: new Map(Object.entries(graphData.reverse ?? {}).map(([k, v]) => [k, new Set(v)])),
+        edgeKinds: new Map(Object.entries(graphData.kinds ?? {}).map(([from, targets]) => [
+            from,
+            new Map(Object.entries(targets).map(([to, kinds]) => [to, new Set(kinds)])),
+        ])),
+        renderProps: new Map(Object.entries(graphData.props ?? {}).map(([from, targets]) => [
+            from,
+            new Map(Object.entries(targets).map(([to, props]) => [to, new Set(props)])),
+        ])),
     };
 }
 
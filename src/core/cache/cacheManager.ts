@@ -1,14 +1,22 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import * as fs from 'fs';
 import { createHash } from 'crypto';
+import { collectTsConfigFiles, findProjectConfig } from '../indexing/projectLoader';
+import { indexFilterKey } from '../indexing/indexFilter';
 
 const CACHE_DIR = '.blastradius';
 
+/**
+ * Version of the on-disk cache layout.  Bump whenever symbol extraction or
+ * the graph format changes so caches written by an older build are treated
+ * as a miss and rebuilt, instead of mixing old and new symbol shapes.
+ */
+export const CACHE_VERSION = '1.19.0';
+
 const INITIAL_FILES: Record<string, unknown> = {
     'graph.json': {
-        present: { forward: {}, reverse: {} },
-        future:  { forward: {}, reverse: {} },
+        present: { forward: {}, reverse: {}, kinds: {} },
+        future:  { forward: {}, reverse: {}, kinds: {} },
     },
     'symbols.json': {},
     'signatures.json': {},
@@ -16,7 +24,7 @@ const INITIAL_FILES: Record<string, unknown> = {
     'metadata.json': {
         projectHash: '',
         createdAt: '',
-        version: '1.0.0',
+        version: CACHE_VERSION,
     },
     'impact.json': {},
 };
@@ -121,16 +129,25 @@ export async function isCacheReady(workspaceRoot: vscode.Uri): Promise<boolean>
 }
 
 /**
- * Hash the content of tsconfig.json to detect project structure changes.
- * If tsconfig changes, the cache must be invalidated and rebuilt.
+ * Hash every tsconfig that shapes the project — the root config, its
+ * `extends` chain and all referenced projects — and the folder's index
+ * filter to detect structure changes.  If any of them changes, the cache
+ * must be invalidated and rebuilt.
  */
 export function computeProjectHash(workspaceRootFsPath: string): string {
-    try {
-        const tsconfig = fs.readFileSync(path.join(workspaceRootFsPath, 'tsconfig.json'), 'utf8');
-        return createHash('sha256').update(tsconfig).digest('hex');
-    } catch {
-        return 'unknown';
+    const { allConfigFiles } = collectTsConfigFiles(findProjectConfig(workspaceRootFsPath));
+    if (allConfigFiles.length === 0) { return 'unknown'; }
+
+    const hash = createHash('sha256');
+    for (const configPath of [...allConfigFiles].sort()) {
+        try {
+            hash.update(configPath).update('\0').update(fs.readFileSync(configPath, 'utf8'));
+        } catch {
+            return 'unknown';
+        }
     }
+    hash.update(indexFilterKey(workspaceRootFsPath));
+    return hash.digest('hex');
 }
 
 /**
@@ -145,7 +162,7 @@ export async function writeCacheMetadata(
     await writeJsonFile(metaUri, {
         projectHash,
         createdAt: new Date().toISOString(),
-        version: '1.0.0',
+        version: CACHE_VERSION,
     });
     console.log('[RippleCheck] Cache metadata written');
 }
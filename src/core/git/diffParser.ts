@@ -1,5 +1,6 @@
 import * as path from 'path';
 import { execGit } from './gitUtils';
+import { DiffSource, STAGED_SOURCE, diffArgs } from './diffSource';
 
 export interface DiffHunk {
     /** Absolute path of the file in its staged (new) form. */
@@ -11,10 +12,18 @@ export interface DiffHunk {
     newStartLine: number;
     /**
      * Number of lines affected in the new file.
-     * 0 for pure-deletion hunks (all lines removed, nothing added at this offset).
-     * We skip those — deleted files are handled via the 'D' status in getStagedFiles.
+     * 0 for pure-deletion hunks (all lines removed, nothing added at this
+     * offset); `newStartLine` is then the line the removed lines followed —
+     * 0 when they were at the top of the file.
      */
     newLineCount: number;
+    /** 1-based first line of the changed region in the old (`HEAD`) file, from `-l`. */
+    oldStartLine: number;
+    /**
+     * Number of lines removed or replaced in the old file.  0 for pure
+     * insertions; `oldStartLine` is then the line they were inserted after.
+     */
+    oldLineCount: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -29,18 +38,39 @@ export interface DiffHunk {
  * Match: @@ -old_start[,old_count] +new_start[,new_count] @@
  *
  * Capture groups:
- *   1 — new_start  (always present)
- *   2 — new_count  (absent when count is 1, per git unified-diff convention)
+ *   1 — old_start  (always present)
+ *   2 — old_count  (absent when count is 1, per git unified-diff convention)
+ *   3 — new_start  (always present)
+ *   4 — new_count  (absent when count is 1)
  */
-const HUNK_HEADER_RE = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+const HUNK_HEADER_RE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** The line ranges of a `@@` header line, or null when it is not one. */
+function parseHunkHeader(line: string): Omit<DiffHunk, 'absoluteFilePath'> | null {
+    const m = HUNK_HEADER_RE.exec(line);
+    if (!m) { return null; }
+    // When the `,n` part is absent, git convention means count = 1.
+    return {
+        oldStartLine: parseInt(m[1], 10),
+        oldLineCount: m[2] !== undefined ? parseInt(m[2], 10) : 1,
+        newStartLine: parseInt(m[3], 10),
+        newLineCount: m[4] !== undefined ? parseInt(m[4], 10) : 1,
+    };
+}
+
+/** Identity of a hunk within its file: its old and new line ranges. */
+function hunkKey(hunk: Omit<DiffHunk, 'absoluteFilePath'>): string {
+    return `${hunk.oldStartLine},${hunk.oldLineCount} ${hunk.newStartLine},${hunk.newLineCount}`;
+}
 
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
 /**
- * Run `git diff --cached --unified=0` and return every changed hunk in the
- * staging area as typed objects.
+ * Run `git diff --cached --unified=0 --relative` and return every changed
+ * hunk in the staging area as typed objects.  `--relative` keeps paths
+ * relative to `repoRoot` even when it is a subdirectory of the repository.
  *
  * `--unified=0` removes context lines so each `@@` header's `+l,n` range maps
  * exactly to the changed region — no over-reporting of surrounding context.
@@ -54,15 +84,26 @@ const HUNK_HEADER_RE = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
  * ## Pure-deletion hunks
  *
  * When `+l,0` appears the new file has zero lines at that position (all lines
- * were removed).  We skip these — entirely deleted files are already tracked
- * by `getStagedFiles` as status `D`, and ghost-symbol detection handles them.
+ * were removed).  These are kept: removing a check or a `return` from a
+ * function body changes the function even though no line was added.  The
+ * caller maps them to the symbols enclosing the deletion point.  Entirely
+ * deleted files (`+++ /dev/null`) produce no hunks — they are tracked by
+ * `getStagedFiles` as status `D`, and ghost-symbol detection handles them.
+ *
+ * For a revision range (`source`) the hunks of `git diff <base> <head>` are
+ * returned instead, with the range's `head` as the new side; for the
+ * working tree those of `git diff [HEAD]`, with the files on disk as the new
+ * side (untracked files have no hunks).
  *
  * Returns an empty array when the index is clean or git is unavailable.
  */
-export async function getStagedDiffHunks(repoRoot: string): Promise<DiffHunk[]> {
+export async function getStagedDiffHunks(
+    repoRoot: string,
+    source: DiffSource = STAGED_SOURCE,
+): Promise<DiffHunk[]> {
     let output: string;
     try {
-        output = await execGit(['diff', '--cached', '--unified=0'], repoRoot);
+        output = await execGit(['diff', '--unified=0', '--relative', ...diffArgs(source)], repoRoot);
     } catch {
         return [];
     }
@@ -87,19 +128,55 @@ export async function getStagedDiffHunks(repoRoot: string): Promise<DiffHunk[]>
 
         // `@@ ... @@` — hunk header.  Only relevant if we have a current file.
         if (line.startsWith('@@') && currentAbsPath !== null) {
-            const m = HUNK_HEADER_RE.exec(line);
-            if (!m) { continue; }
+            const ranges = parseHunkHeader(line);
+            if (ranges) { hunks.push({ absoluteFilePath: currentAbsPath, ...ranges }); }
+        }
+    }
 
-            const newStartLine = parseInt(m[1], 10);
-            // When the `,n` part is absent, git convention means count = 1.
-            const newLineCount = m[2] !== undefined ? parseInt(m[2], 10) : 1;
+    return hunks;
+}
 
-            // Skip pure-deletion hunks — no lines were added in the new file.
-            if (newLineCount === 0) { continue; }
+// ---------------------------------------------------------------------------
+// Partial staging
+// ---------------------------------------------------------------------------
 
-            hunks.push({ absoluteFilePath: currentAbsPath, newStartLine, newLineCount });
+/**
+ * Stage some of the unstaged hunks of one file — `git add -p` without the
+ * prompts.
+ *
+ * The patch is rebuilt from a fresh `git diff --unified=0` of the file: its
+ * header plus every hunk whose ranges match one of `hunks` (as returned for
+ * the working tree against the index).  It is applied to the index with
+ * `git apply --cached --unidiff-zero`, from the top level of the repository
+ * where the patch's paths are rooted.  Hunks that no longer exist — the
+ * file was edited or staged since — are skipped.
+ *
+ * Resolves with the number of hunks staged; rejects when git refuses the
+ * patch.
+ */
+export async function stageHunks(
+    repoRoot: string,
+    absoluteFilePath: string,
+    hunks: DiffHunk[],
+): Promise<number> {
+    const topLevel = (await execGit(['rev-parse', '--show-toplevel'], repoRoot)).trim();
+    const relPath  = path.relative(topLevel, absoluteFilePath).replace(/\\/g, '/');
+    const diff     = await execGit(['diff', '--unified=0', '--', relPath], topLevel);
+
+    const wanted = new Set(hunks.map(hunkKey));
+    const patch: string[] = [];
+    let keep  = true;   // the file header, up to the first hunk, is always kept
+    let count = 0;
+    for (const line of diff.replace(/\n$/, '').split('\n')) {
+        if (line.startsWith('@@')) {
+            const ranges = parseHunkHeader(line);
+            keep = ranges !== null && wanted.has(hunkKey(ranges));
+            if (keep) { count++; }
         }
+        if (keep) { patch.push(line); }
     }
+    if (count === 0) { return 0; }
 
-    return hunks;
+    await execGit(['apply', '--cached', '--unidiff-zero', '-'], topLevel, patch.join('\n') + '\n');
+    return count;
 }
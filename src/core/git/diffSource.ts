@@ -0,0 +1,112 @@
+import { execGit } from './gitUtils';
+
+/**
+ * The changes between two revisions.  `base` and `head` are full commit
+ * hashes, resolved once so every git call of an analysis reads the same
+ * snapshot; `label` is the range as the user typed it.
+ */
+export interface RevisionRange {
+    kind: 'range';
+    base: string;
+    head: string;
+    label: string;
+}
+
+/**
+ * The edits in the working tree: the files on disk against the index
+ * (unstaged edits only), or against `HEAD` when `includeStaged` is set
+ * (staged and unstaged edits together).
+ */
+export interface WorkingTreeChanges {
+    kind: 'working-tree';
+    includeStaged: boolean;
+}
+
+/**
+ * What a diff-based analysis compares.
+ *
+ * - `staged`       : the index against `HEAD` — what the next commit contains.
+ * - `working-tree` : the files on disk against the index or `HEAD`.
+ * - `range`        : revision `head` against revision `base`.
+ */
+export type DiffSource = { kind: 'staged' } | WorkingTreeChanges | RevisionRange;
+
+export const STAGED_SOURCE: DiffSource = { kind: 'staged' };
+
+/** Which local changes the sidebar analyses. */
+export type LocalChangeScope = 'staged' | 'unstaged' | 'both';
+
+/** The diff source that covers `scope`. */
+export function localChangeSource(scope: LocalChangeScope): DiffSource {
+    return scope === 'staged' ? STAGED_SOURCE : { kind: 'working-tree', includeStaged: scope === 'both' };
+}
+
+// ---------------------------------------------------------------------------
+// Git arguments
+// ---------------------------------------------------------------------------
+
+/** The trailing `git diff` arguments that select the changes of `source`. */
+export function diffArgs(source: DiffSource): string[] {
+    switch (source.kind) {
+        case 'staged':       return ['--cached'];
+        case 'working-tree': return source.includeStaged ? ['HEAD'] : [];
+        case 'range':        return [source.base, source.head];
+    }
+}
+
+/** Human-readable name of `source` for the sidebar. */
+export function describeDiffSource(source: DiffSource): string {
+    switch (source.kind) {
+        case 'staged':       return 'Staged changes';
+        case 'working-tree': return source.includeStaged ? 'Staged + unstaged changes' : 'Unstaged changes';
+        case 'range':        return source.label;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Range parsing
+// ---------------------------------------------------------------------------
+
+/** Full hash of the commit `rev` names; rejects with a readable message when there is none. */
+async function resolveCommit(repoRoot: string, rev: string): Promise<string> {
+    try {
+        return (await execGit(['rev-parse', '--verify', '--quiet', `${rev}^{commit}`], repoRoot)).trim();
+    } catch {
+        throw new Error(`Unknown revision '${rev}'`);
+    }
+}
+
+/**
+ * Resolve a revision range the way `git diff` reads it:
+ *
+ *   - `base..head`  : `head` against `base`;
+ *   - `base...head` : `head` against the merge base of the two — only the
+ *                     changes made on `head`'s side, e.g. a feature branch
+ *                     against `main` after `main` moved on;
+ *   - `rev`         : the changes of the single commit `rev` (`rev^..rev`).
+ *
+ * An empty side stands for `HEAD`.  Rejects when a revision does not exist
+ * or the branches share no history.
+ *
+ * @param repoRoot Absolute path to the repository / workspace root.
+ * @param spec     The range as typed, e.g. `main...HEAD`.
+ */
+export async function resolveRevisionRange(repoRoot: string, spec: string): Promise<RevisionRange> {
+    const label = spec.trim();
+    const m = /^(.*?)(\.\.\.?)(.*)$/.exec(label);
+    if (!m) {
+        const head = await resolveCommit(repoRoot, label);
+        return { kind: 'range', base: await resolveCommit(repoRoot, `${head}^`), head, label };
+    }
+
+    const base = await resolveCommit(repoRoot, m[1] || 'HEAD');
+    const head = await resolveCommit(repoRoot, m[3] || 'HEAD');
+    if (m[2] === '..') { return { kind: 'range', base, head, label }; }
+
+    try {
+        const mergeBase = (await execGit(['merge-base', base, head], repoRoot)).trim();
+        return { kind: 'range', base: mergeBase, head, label };
+    } catch {
+        throw new Error(`'${m[1] || 'HEAD'}' and '${m[3] || 'HEAD'}' have no common ancestor`);
+    }
+}
@@ -1,9 +1,14 @@
+import * as fs from 'fs';
 import { Project } from 'ts-morph';
 import { SymbolIndex } from '../indexing/symbolIndex';
 import { DependencyGraph } from '../graph/types';
-import { SignatureChangeResult, detectGhostSymbols } from '../analysis/signatureAnalyzer';
-import { handleFileChanged, handleFileDeleted } from '../watch/incrementalUpdater';
-import { getStagedFiles, readStagedContent } from './stagedSnapshot';
+import { SignatureChangeResult, detectGhostSymbols, detectSymbolMoves } from '../analysis/signatureAnalyzer';
+import { SignatureCompatibility } from '../analysis/signatureCompatibility';
+import { SignatureDiff } from '../analysis/signatureDiff';
+import { walkSourceFile } from '../indexing/referenceWalker';
+import { handleFileChanged, handleFileDeleted, handleFilesChanged } from '../watch/incrementalUpdater';
+import { StagedFileEntry, getStagedFiles, readStagedContent, readRevisionContent } from './stagedSnapshot';
+import { DiffSource, STAGED_SOURCE } from './diffSource';
 
 // ---------------------------------------------------------------------------
 // Result type
@@ -29,15 +34,34 @@ export interface StagedAnalysisResult {
      * Includes both:
      *   - symbols whose signatureHash changed (ripple from each perFile result)
      *   - ghost symbols (deleted or renamed away, so dependents are now broken)
+     *
+     * Symbols in `moves` are not included.
      */
     rippleRoots: string[];
 
     /**
-     * Symbol IDs that exist in the dependency graph but are absent from the
-     * symbol index after analysis — i.e. their declaration was deleted or
-     * renamed in the staged snapshot.
+     * Compatibility of every signature change in `rippleRoots` (ghost
+     * symbols excluded), merged across files.
+     */
+    compatibility: Map<string, SignatureCompatibility>;
+
+    /** Before / after signature of every change in `rippleRoots`, merged across files. */
+    signatureDiffs: Map<string, SignatureDiff>;
+
+    /**
+     * Symbol IDs that were indexed (or still referenced in the dependency
+     * graph) before analysis but are absent from the symbol index after it —
+     * i.e. their declaration was deleted or renamed in the staged snapshot,
+     * and no moved / renamed counterpart was found for it.
      */
     ghostSymbols: string[];
+
+    /**
+     * Symbols that were moved to another file and/or renamed, detected by
+     * `detectSymbolMoves`.  Keyed by the old symbol ID; values are the ID
+     * the symbol has in the staged snapshot.
+     */
+    moves: Map<string, string>;
 }
 
 // ---------------------------------------------------------------------------
@@ -67,30 +91,52 @@ const WATCHED_EXT = /\.(ts|tsx|js|jsx)$/;
  *
  * `git add newFile.ts` can happen before VSCode's file-system watcher fires.
  * When a staged file is absent from the symbol index, the underlying
- * `handleFileChanged` call transparently handles it: `refreshSourceFile`
+ * `handleFilesChanged` call transparently handles it: `refreshSourceFile`
  * creates an in-memory ts-morph SourceFile from the staged content, so no
  * special pre-check is needed. The "added" bucket of the returned
  * `SignatureChangeResult` will contain all newly discovered symbols.
  *
+ * ## Revision ranges and the working tree
+ *
+ * With a `range` source the files changed between the two revisions are
+ * analysed with their content at the range's `head`; with a `working-tree`
+ * source the edited files are analysed with their content on disk.  The
+ * index and graph passed in should then hold the revision compared against
+ * (`loadRevisionSnapshot`).
+ *
  * @param project            The live ts-morph project.
  * @param symbolIndex        The live symbol index (mutated in place).
  * @param graph              The live dependency graph (mutated in place).
  * @param workspaceRootFsPath Absolute path to the repository / workspace root.
+ * @param source             The changes to analyse — the staging area by default.
  */
 export async function analyzeStagedChanges(
     project: Project,
     symbolIndex: SymbolIndex,
     graph: DependencyGraph,
     workspaceRootFsPath: string,
+    source: DiffSource = STAGED_SOURCE,
 ): Promise<StagedAnalysisResult> {
     // ── Step 1: enumerate staged files ──────────────────────────────────────
-    const stagedFiles = await getStagedFiles(workspaceRootFsPath);
+    const stagedFiles = await getStagedFiles(workspaceRootFsPath, source);
+
+    // Entries as they were before any file is re-analysed — ghost symbols
+    // are gone from the index afterwards, but move detection needs them.
+    const previousIndex = new Map(symbolIndex);
 
     const perFile = new Map<string, SignatureChangeResult>();
     const allRippleRoots: string[] = [];
     const analysedPaths: string[] = [];
 
-    // ── Step 2: process each staged file ────────────────────────────────────
+    // ── Step 2: process the staged files ────────────────────────────────────
+    //
+    // Deleted files (and the old side of renames) are dropped first; the
+    // staged content of every other file is read, then all of them are
+    // re-indexed together (`handleFilesChanged`).  Walking references only
+    // once every file is in place keeps the result independent of the order
+    // git lists the files in — a dependent that now imports from a new file
+    // must resolve to it, or move detection flags it as broken.
+    const contents = new Map<string, string>();
     for (const entry of stagedFiles) {
         const { status, absolutePath } = entry;
 
@@ -102,93 +148,171 @@ export async function analyzeStagedChanges(
             // ── Deleted: wipe symbols & edges, nothing to re-index ──────────
             handleFileDeleted(absolutePath, project, symbolIndex, graph);
             // An all-empty result; ghost detection below will surface orphaned dependents
-            perFile.set(absolutePath, { ripple: [], safe: [], added: [], removed: [], preRemovalDependents: new Map<string, string[]>() });
-
-        } else if (status === 'R' || status === 'C') {
-            // ── Rename / copy: treat old path as deleted, new path as added ─
-            if (entry.oldAbsolutePath) {
-                handleFileDeleted(entry.oldAbsolutePath, project, symbolIndex, graph);
-            }
-            await analyzeOneStagedFile(
-                absolutePath, workspaceRootFsPath,
-                project, symbolIndex, graph,
-                perFile, allRippleRoots,
-            );
+            perFile.set(absolutePath, {
+                ripple: [], compatibility: new Map(), signatureDiffs: new Map(), safe: [], added: [], removed: [],
+                preRemovalDependents: new Map<string, string[]>(),
+            });
+            continue;
+        }
 
-        } else {
-            // ── Added (A) or Modified (M) ────────────────────────────────────
-            //
-            // Both cases are handled identically:
-            //   • Modified: handleFileChanged snapshots old hashes, wipes, re-indexes
-            //     with staged content, returns diff.
-            //   • Added (not yet in index): snapshotSignatures returns empty map →
-            //     removeFileFromGraph is a no-op → file is created in-memory from
-            //     staged content → all symbols land in the "added" bucket.
-            //     No special-casing needed.
-            await analyzeOneStagedFile(
-                absolutePath, workspaceRootFsPath,
-                project, symbolIndex, graph,
-                perFile, allRippleRoots,
-            );
+        // ── Rename / copy: treat old path as deleted, new path as added ─────
+        if ((status === 'R' || status === 'C') && entry.oldAbsolutePath) {
+            handleFileDeleted(entry.oldAbsolutePath, project, symbolIndex, graph);
+        }
+
+        // ── Added (A), Modified (M) or the new side of a rename ─────────────
+        //
+        // All handled identically:
+        //   • Modified: handleFilesChanged snapshots old hashes, wipes, re-indexes
+        //     with staged content, returns diff.
+        //   • Added (not yet in index): snapshotSignatures returns empty map →
+        //     removeFileFromGraph is a no-op → file is created in-memory from
+        //     staged content → all symbols land in the "added" bucket.
+        //     No special-casing needed.
+        const stagedContent = await readStagedContent(workspaceRootFsPath, absolutePath, source);
+        if (stagedContent === null) {
+            // git show failed — file may have been removed from the index between
+            // getStagedFiles and this call. Log and skip.
+            console.warn(`[RippleCheck] analyzeStagedChanges: could not read staged content for ${absolutePath}`);
+            continue;
         }
+        contents.set(absolutePath, stagedContent);
+    }
+
+    for (const [absolutePath, result] of handleFilesChanged(contents, project, symbolIndex, graph, workspaceRootFsPath, stagedFiles.length > 1)) {
+        perFile.set(absolutePath, result);
+        allRippleRoots.push(...result.ripple);
     }
 
     // ── Step 3: ghost symbol detection ──────────────────────────────────────
-    // Symbols that are still referenced in the graph but no longer exist in
-    // the index after analysis.  Their dependents are effectively broken.
-    const ghostSymbols = detectGhostSymbols(graph, symbolIndex);
+    // Symbols that are still referenced in the graph, or were indexed before
+    // analysis, but no longer exist in the index.  Re-analysing a file drops
+    // its old symbols' edges in both directions, so the graph alone misses
+    // most deletions.  Their dependents are effectively broken.
+    //
+    // A ghost that reappears elsewhere — same code in another file, or under
+    // a new name — is a move, not a deletion: its dependents may already have
+    // been updated in the same change.
+    const addedEntries = [...perFile.values()]
+        .flatMap(r => r.added)
+        .flatMap(id => symbolIndex.get(id) ?? []);
+    const allGhosts    = [...new Set([
+        ...detectGhostSymbols(graph, symbolIndex),
+        ...[...previousIndex.keys()].filter(id => !symbolIndex.has(id)),
+    ])];
+    const moves        = detectSymbolMoves(allGhosts.flatMap(id => previousIndex.get(id) ?? []), addedEntries);
+    const ghostSymbols = allGhosts.filter(id => !moves.has(id));
     allRippleRoots.push(...ghostSymbols);
 
+    const compatibility  = new Map<string, SignatureCompatibility>();
+    const signatureDiffs = new Map<string, SignatureDiff>();
+    for (const fileResult of perFile.values()) {
+        for (const [id, verdict] of fileResult.compatibility) { compatibility.set(id, verdict); }
+        for (const [id, diff] of fileResult.signatureDiffs)   { signatureDiffs.set(id, diff); }
+    }
+
     return {
         stagedFilePaths: analysedPaths,
         perFile,
         rippleRoots: [...new Set(allRippleRoots)],
+        compatibility,
+        signatureDiffs,
         ghostSymbols,
+        moves,
     };
 }
 
 // ---------------------------------------------------------------------------
-// Internal helper
+// Revision snapshots
 // ---------------------------------------------------------------------------
 
+/** Absolute paths a change list touches — both sides of a rename / copy. */
+function changedPaths(changedFiles: StagedFileEntry[]): Set<string> {
+    return new Set(changedFiles
+        .flatMap(e => e.oldAbsolutePath ? [e.absolutePath, e.oldAbsolutePath] : [e.absolutePath])
+        .filter(p => WATCHED_EXT.test(p)));
+}
+
 /**
- * Read staged content for one file and run the incremental update pipeline
- * with that content.  Mutates `perFile` and `allRippleRoots`.
+ * Rewind `symbolIndex` and `graph` to `revision` for every file in
+ * `changedFiles` (the `getStagedFiles` listing of a revision range or the
+ * working tree): each file is re-analysed with its content at `revision`,
+ * files that did not exist there are dropped, and the old path of a rename
+ * comes back.
+ *
+ * Re-analysing a file drops the edges other files had into it, so once
+ * every changed file holds its old content they are walked again, together
+ * with the unchanged files that referenced them.  Unchanged files keep the
+ * content the project has for them.
+ *
+ * The project's copies of the changed files are replaced as well —
+ * `restoreWorkspaceFiles` puts them back.
+ *
+ * @param project            The live ts-morph project.
+ * @param symbolIndex        The symbol index to rewind (mutated in place).
+ * @param graph              The dependency graph to rewind (mutated in place).
+ * @param workspaceRootFsPath Absolute path to the repository / workspace root.
+ * @param changedFiles       Files changed since `revision`.
+ * @param revision           The commit to rewind to; `''` for the index.
  */
-async function analyzeOneStagedFile(
-    absolutePath: string,
-    workspaceRootFsPath: string,
+export async function loadRevisionSnapshot(
     project: Project,
     symbolIndex: SymbolIndex,
     graph: DependencyGraph,
-    perFile: Map<string, SignatureChangeResult>,
-    allRippleRoots: string[],
+    workspaceRootFsPath: string,
+    changedFiles: StagedFileEntry[],
+    revision: string,
 ): Promise<void> {
-    const stagedContent = await readStagedContent(workspaceRootFsPath, absolutePath);
+    const paths = changedPaths(changedFiles);
 
-    if (stagedContent === null) {
-        // git show failed — file may have been removed from the index between
-        // getStagedFiles and this call. Log and skip.
-        console.warn(`[RippleCheck] analyzeStagedChanges: could not read staged content for ${absolutePath}`);
-        return;
+    // Unchanged files that reference a changed one — collected before the
+    // edges are dropped.
+    const dependentPaths = new Set<string>();
+    for (const [id, entry] of symbolIndex) {
+        if (!paths.has(entry.filePath)) { continue; }
+        for (const depId of graph.reverse.get(id) ?? []) {
+            const depPath = symbolIndex.get(depId)?.filePath;
+            if (depPath && !paths.has(depPath)) { dependentPaths.add(depPath); }
+        }
     }
 
-    // Feed the staged snapshot (not the filesystem version) into the standard
-    // incremental update pipeline.  The pipeline:
-    //   1. Snapshots old signature hashes
-    //   2. Wipes the file's symbols and graph edges
-    //   3. Parses `stagedContent` as an in-memory ts-morph SourceFile
-    //   4. Re-extracts symbols and re-walks references
-    //   5. Returns the diff (ripple / safe / added / removed)
-    const result = handleFileChanged(
-        absolutePath,
-        stagedContent,
-        project,
-        symbolIndex,
-        graph,
-        workspaceRootFsPath,
-    );
-
-    perFile.set(absolutePath, result);
-    allRippleRoots.push(...result.ripple);
+    for (const entry of changedFiles) {
+        if (!WATCHED_EXT.test(entry.absolutePath)) { continue; }
+        const oldPath = entry.status === 'A' ? undefined : entry.oldAbsolutePath ?? entry.absolutePath;
+        if (entry.absolutePath !== oldPath) {
+            handleFileDeleted(entry.absolutePath, project, symbolIndex, graph);
+        }
+        if (!oldPath) { continue; }
+
+        const content = await readRevisionContent(workspaceRootFsPath, oldPath, revision);
+        if (content === null) {
+            handleFileDeleted(oldPath, project, symbolIndex, graph);
+        } else {
+            handleFileChanged(oldPath, content, project, symbolIndex, graph, workspaceRootFsPath);
+        }
+    }
+
+    for (const filePath of [...paths, ...dependentPaths]) {
+        const sourceFile = project.getSourceFile(filePath);
+        if (sourceFile) { walkSourceFile(sourceFile, symbolIndex, workspaceRootFsPath, graph); }
+    }
+}
+
+/**
+ * Reload the project's copy of every file in `changedFiles` from disk after
+ * a revision snapshot replaced it: files that exist are re-read (or added
+ * back), files that do not are removed.  Unsaved editor content of those
+ * files is picked up again by the next edit.
+ */
+export function restoreWorkspaceFiles(project: Project, changedFiles: StagedFileEntry[]): void {
+    for (const filePath of changedPaths(changedFiles)) {
+        const sourceFile = project.getSourceFile(filePath);
+        if (!fs.existsSync(filePath)) {
+            if (sourceFile) { project.removeSourceFile(sourceFile); }
+        } else if (sourceFile) {
+            sourceFile.refreshFromFileSystemSync();
+        } else {
+            project.addSourceFileAtPath(filePath);
+        }
+    }
 }
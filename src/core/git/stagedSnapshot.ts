@@ -1,5 +1,7 @@
+import * as fs from 'fs';
 import * as path from 'path';
 import { execGit } from './gitUtils';
+import { DiffSource, STAGED_SOURCE, diffArgs } from './diffSource';
 
 export type StagedStatus = 'A' | 'M' | 'D' | 'R' | 'C' | 'T';
 
@@ -24,19 +26,32 @@ export interface StagedFileEntry {
  * Return every file currently in the git staging area (index) together with
  * its status.
  *
- * Uses `git diff --cached --name-status` which outputs tab-delimited lines:
+ * Uses `git diff --cached --name-status --relative` which outputs
+ * tab-delimited lines:
  *   M\tpath/to/file.ts
  *   A\tnewfile.ts
  *   D\tdeleted.ts
  *   R100\told-name.ts\tnew-name.ts
  *
+ * `--relative` limits the output to files under `repoRoot` and prints paths
+ * relative to it, so a workspace folder that is a subdirectory of the
+ * repository (common in multi-root workspaces) only sees its own files.
+ *
+ * For a revision range (`source`) the same listing is taken from
+ * `git diff --name-status --relative <base> <head>` instead, and for the
+ * working tree from `git diff --name-status --relative [HEAD]` — plus every
+ * untracked, non-ignored file as `A`, so generated files are seen too.
+ *
  * Returns an empty array when the repo has no staged changes or when the
  * working directory is not a git repository.
  */
-export async function getStagedFiles(repoRoot: string): Promise<StagedFileEntry[]> {
+export async function getStagedFiles(
+    repoRoot: string,
+    source: DiffSource = STAGED_SOURCE,
+): Promise<StagedFileEntry[]> {
     let output: string;
     try {
-        output = await execGit(['diff', '--cached', '--name-status'], repoRoot);
+        output = await execGit(['diff', '--name-status', '--relative', ...diffArgs(source)], repoRoot);
     } catch {
         // Not a git repo, clean index, or git not available
         return [];
@@ -70,9 +85,53 @@ export async function getStagedFiles(repoRoot: string): Promise<StagedFileEntry[
         }
     }
 
+    if (source.kind === 'working-tree') {
+        for (const absolutePath of await getUntrackedFiles(repoRoot)) {
+            entries.push({ status: 'A', absolutePath });
+        }
+    }
+
     return entries;
 }
 
+/**
+ * Absolute paths of every untracked file that is not ignored
+ * (`git ls-files --others --exclude-standard`).  Returns an empty array
+ * outside a git repository.
+ */
+async function getUntrackedFiles(repoRoot: string): Promise<string[]> {
+    let output: string;
+    try {
+        output = await execGit(['ls-files', '--others', '--exclude-standard'], repoRoot);
+    } catch {
+        return [];
+    }
+    return output
+        .split('\n')
+        .map(line => line.trimEnd())
+        .filter(Boolean)
+        .map(rel => path.join(repoRoot, rel).replace(/\\/g, '/'));
+}
+
+/**
+ * Absolute paths of every file whose working-tree content differs from the
+ * index (`git diff --name-only --relative`) — edits that are not staged.
+ * Returns an empty array outside a git repository.
+ */
+export async function getUnstagedFiles(repoRoot: string): Promise<string[]> {
+    let output: string;
+    try {
+        output = await execGit(['diff', '--name-only', '--relative'], repoRoot);
+    } catch {
+        return [];
+    }
+    return output
+        .split('\n')
+        .map(line => line.trimEnd())
+        .filter(Boolean)
+        .map(rel => path.join(repoRoot, rel).replace(/\\/g, '/'));
+}
+
 // ---------------------------------------------------------------------------
 // Staged content reader
 // ---------------------------------------------------------------------------
@@ -83,7 +142,9 @@ export async function getStagedFiles(repoRoot: string): Promise<StagedFileEntry[
  *
  * This is the canonical source of truth for what will actually be committed.
  * Use it instead of reading the file from disk so that partial-hunk staging
- * (where the editor has unstaged edits) is handled correctly.
+ * (where the editor has unstaged edits) is handled correctly.  For a
+ * revision range (`source`) the content at the range's `head` is read, and
+ * for the working tree the file on disk.
  *
  * Returns `null` when:
  *   - the file is not staged (e.g. it was deleted and staged as D)
@@ -91,15 +152,55 @@ export async function getStagedFiles(repoRoot: string): Promise<StagedFileEntry[
  *
  * @param repoRoot         Absolute path to the repository root.
  * @param absoluteFilePath Absolute path to the file whose staged version is wanted.
+ * @param source           The changes being analysed — the index by default.
  */
 export async function readStagedContent(
     repoRoot: string,
     absoluteFilePath: string,
+    source: DiffSource = STAGED_SOURCE,
+): Promise<string | null> {
+    switch (source.kind) {
+        case 'staged':       return readRevisionContent(repoRoot, absoluteFilePath, '');
+        case 'range':        return readRevisionContent(repoRoot, absoluteFilePath, source.head);
+        case 'working-tree':
+            try {
+                return await fs.promises.readFile(absoluteFilePath, 'utf8');
+            } catch {
+                return null;
+            }
+    }
+}
+
+/**
+ * Read the content of a file as of the last commit (`HEAD`).
+ *
+ * Returns `null` when the file does not exist in `HEAD` (e.g. it is newly
+ * added) or when there is no commit yet.
+ */
+export async function readHeadContent(
+    repoRoot: string,
+    absoluteFilePath: string,
+): Promise<string | null> {
+    return readRevisionContent(repoRoot, absoluteFilePath, 'HEAD');
+}
+
+/**
+ * Read the content of a file at `revision` — `git show <revision>:path`,
+ * where the empty revision is the index.
+ *
+ * Returns `null` when the file does not exist at `revision` or `git show`
+ * fails for any other reason.
+ */
+export async function readRevisionContent(
+    repoRoot: string,
+    absoluteFilePath: string,
+    revision: string,
 ): Promise<string | null> {
-    // git show expects a path relative to the repo root, with forward slashes
+    // `:./path` is resolved relative to the working directory (`repoRoot`),
+    // which need not be the top level of the repository.
     const relPath = path.relative(repoRoot, absoluteFilePath).replace(/\\/g, '/');
     try {
-        return await execGit(['show', `:${relPath}`], repoRoot);
+        return await execGit(['show', `${revision}:./${relPath}`], repoRoot);
     } catch {
         return null;
     }
@@ -1,5 +1,6 @@
 import { SymbolIndex } from '../indexing/symbolIndex';
-import { DependencyGraph } from './types';
+import { displaySymbolName } from '../indexing/symbolExtractor';
+import { DependencyGraph, EdgeKind } from './types';
 import { BlastRadiusResult } from '../blast/blastRadiusEngine';
 
 export interface GraphElements {
@@ -7,12 +8,19 @@ export interface GraphElements {
     edges: object[];
 }
 
+/**
+ * An edge with several kinds is drawn in the colour of the first kind in
+ * this list — structural relationships before calls, calls before types.
+ */
+const EDGE_KIND_ORDER: EdgeKind[] = ['extends', 'implements', 'override', 'new', 'render', 'call', 'type', 'reexport', 'import', 'reference'];
+
 /**
  * Build Cytoscape node/edge objects from the full dependency graph.
  *
  * Every symbol that participates in at least one edge is included so the
  * panel is never blank.  Blast-radius results are overlaid as role classes
- * (root / direct / indirect / other) for colour coding.
+ * (root / direct / indirect / other) for colour coding.  Each edge carries
+ * its kinds plus the primary `kind` the panel colours it by.
  *
  * Pass an empty BlastRadiusResult when calling before analysis has run.
  */
@@ -54,8 +62,12 @@ export function buildGraphElements(
     const nodes = idList.map(id => {
         const sym   = symbolIndex.get(id);
         // For ghost/deleted symbols not in the index, parse the raw ID (`filePath#name`)
-        // and use only the symbol name portion as the label.
-        const label = sym ? sym.name : (id.includes('#') ? id.slice(id.indexOf('#') + 1) : id);
+        // and use only the symbol name portion as the label.  Module symbols
+        // are labelled with their file name.
+        const hash  = id.indexOf('#');
+        const name  = sym ? sym.name : (hash >= 0 ? id.slice(hash + 1) : id);
+        const file  = sym ? sym.filePath : id.slice(0, Math.max(hash, 0));
+        const label = displaySymbolName(name, file.slice(file.lastIndexOf('/') + 1));
         return { data: { id: safeId.get(id)!, symbolId: id, label, role: role(id) } };
     });
 
@@ -64,10 +76,13 @@ export function buildGraphElements(
     for (const srcId of idList) {
         for (const tgtId of (graph.forward.get(srcId) ?? [])) {
             if (allIds.has(tgtId)) {
+                const kinds = graph.edgeKinds.get(srcId)?.get(tgtId);
                 edges.push({ data: {
                     id:     `e${edgeIndex++}`,
                     source: safeId.get(srcId)!,
                     target: safeId.get(tgtId)!,
+                    kind:   EDGE_KIND_ORDER.find(k => kinds?.has(k)) ?? 'reference',
+                    kinds:  kinds ? Array.from(kinds) : [],
                 } });
             }
         }
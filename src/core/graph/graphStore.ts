@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { DependencyGraph } from './types';
+import { DependencyGraph, EdgeKind, EdgeUsage, TYPE_ONLY_EDGE_KINDS } from './types';
+import { isWithinRoot } from '../indexing/symbolIndex';
 
 const GRAPH_CACHE_PATH = '.blastradius/graph.json';
 
@@ -7,18 +8,27 @@ const GRAPH_CACHE_PATH = '.blastradius/graph.json';
 // Persistence
 // ---------------------------------------------------------------------------
 
+/**
+ * Write `graph` into one section of `.blastradius/graph.json`.
+ *
+ * Only entries keyed by a symbol inside `workspaceRoot` are written: forward
+ * edges owned by the folder's symbols and reverse edges pointing at them.
+ * Edges that cross into another workspace folder are kept on both sides, so
+ * each folder's cache restores its half of them independently.
+ */
 export async function persistDependencyGraph(
     graph: DependencyGraph,
     workspaceRoot: vscode.Uri,
     section: 'present' | 'future' = 'present',
 ): Promise<void> {
-    const graphUri = vscode.Uri.joinPath(workspaceRoot, GRAPH_CACHE_PATH);
+    const graphUri   = vscode.Uri.joinPath(workspaceRoot, GRAPH_CACHE_PATH);
+    const rootFsPath = workspaceRoot.fsPath.replace(/\\/g, '/');
 
     // Read-modify-write: update only the requested section so the other
     // section is not clobbered by an unrelated persist call.
     let stored: Record<string, unknown> = {
-        present: { forward: {}, reverse: {} },
-        future:  { forward: {}, reverse: {} },
+        present: { forward: {}, reverse: {}, kinds: {}, props: {} },
+        future:  { forward: {}, reverse: {}, kinds: {}, props: {} },
     };
     try {
         const bytes  = await vscode.workspace.fs.readFile(graphUri);
@@ -31,8 +41,10 @@ export async function persistDependencyGraph(
     } catch { /* file does not exist yet — use defaults */ }
 
     (stored as any)[section] = {
-        forward: serializeMap(graph.forward),
-        reverse: serializeMap(graph.reverse),
+        forward: serializeMap(graph.forward, rootFsPath),
+        reverse: serializeMap(graph.reverse, rootFsPath),
+        kinds:   serializeKinds(graph.edgeKinds, rootFsPath),
+        props:   serializeKinds(graph.renderProps, rootFsPath),
     };
 
     const encoded = new TextEncoder().encode(JSON.stringify(stored, null, 2));
@@ -40,14 +52,81 @@ export async function persistDependencyGraph(
     console.log(`[RippleCheck] Dependency graph[${section}] persisted → ${graphUri.fsPath}`);
 }
 
-function serializeMap(map: Map<string, Set<string>>): Record<string, string[]> {
+function serializeMap(map: Map<string, Set<string>>, rootFsPath: string): Record<string, string[]> {
     const out: Record<string, string[]> = {};
     for (const [key, set] of map) {
+        if (!isWithinRoot(symbolFilePath(key), rootFsPath)) { continue; }
         out[key] = Array.from(set);
     }
     return out;
 }
 
+/**
+ * `{ from: { to: ['call', 'type'] } }` — keyed by the owning (from) symbol,
+ * like `forward`.  Render props are stored the same way.
+ */
+function serializeKinds<T extends string>(
+    kinds: Map<string, Map<string, Set<T>>>,
+    rootFsPath: string,
+): Record<string, Record<string, T[]>> {
+    const out: Record<string, Record<string, T[]>> = {};
+    for (const [fromId, targets] of kinds) {
+        if (!isWithinRoot(symbolFilePath(fromId), rootFsPath)) { continue; }
+        const entry: Record<string, T[]> = {};
+        for (const [toId, set] of targets) { entry[toId] = Array.from(set); }
+        out[fromId] = entry;
+    }
+    return out;
+}
+
+/** `"/abs/file.ts#Foo.bar"` → `"/abs/file.ts"`. */
+function symbolFilePath(symbolId: string): string {
+    const hash = symbolId.indexOf('#');
+    return hash >= 0 ? symbolId.slice(0, hash) : symbolId;
+}
+
+/**
+ * Copy every edge of `source` into `target` (union).  Used to assemble the
+ * shared graph of a multi-root workspace from per-folder graphs.
+ */
+export function mergeDependencyGraph(target: DependencyGraph, source: DependencyGraph): void {
+    const mergeMap = (into: Map<string, Set<string>>, from: Map<string, Set<string>>): void => {
+        for (const [key, set] of from) {
+            let existing = into.get(key);
+            if (!existing) { existing = new Set(); into.set(key, existing); }
+            for (const id of set) { existing.add(id); }
+        }
+    };
+    mergeMap(target.forward, source.forward);
+    mergeMap(target.reverse, source.reverse);
+    for (const [fromId, targets] of source.edgeKinds) {
+        for (const [toId, kinds] of targets) {
+            for (const kind of kinds) { addEdgeKind(target, fromId, toId, kind); }
+        }
+    }
+    for (const [fromId, targets] of source.renderProps) {
+        for (const [toId, props] of targets) { addRenderProps(target, fromId, toId, props); }
+    }
+}
+
+/** Tag the edge `fromId → toId` with `kind` (the edge itself is not added). */
+export function addEdgeKind(graph: DependencyGraph, fromId: string, toId: string, kind: EdgeKind): void {
+    let targets = graph.edgeKinds.get(fromId);
+    if (!targets) { targets = new Map(); graph.edgeKinds.set(fromId, targets); }
+    let kinds = targets.get(toId);
+    if (!kinds) { kinds = new Set(); targets.set(toId, kinds); }
+    kinds.add(kind);
+}
+
+/** Record that `fromId` passes `props` when it renders the component `toId`. */
+export function addRenderProps(graph: DependencyGraph, fromId: string, toId: string, props: Iterable<string>): void {
+    let targets = graph.renderProps.get(fromId);
+    if (!targets) { targets = new Map(); graph.renderProps.set(fromId, targets); }
+    let passed = targets.get(toId);
+    if (!passed) { passed = new Set(); targets.set(toId, passed); }
+    for (const prop of props) { passed.add(prop); }
+}
+
 // ---------------------------------------------------------------------------
 // O(1) edge queries
 // ---------------------------------------------------------------------------
@@ -69,3 +148,32 @@ export function getDependencies(graph: DependencyGraph, symbolId: string): strin
     return Array.from(graph.forward.get(symbolId) ?? []);
 }
 
+/**
+ * The kinds of the edge `fromId → toId` (`fromId` depends on `toId`).
+ * Empty for untagged edges, e.g. those restored from a pre-1.5 cache.
+ */
+export function getEdgeKinds(graph: DependencyGraph, fromId: string, toId: string): EdgeKind[] {
+    return Array.from(graph.edgeKinds.get(fromId)?.get(toId) ?? []);
+}
+
+/**
+ * The props `fromId` passes when it renders the component `toId`, sorted.
+ * Undefined when `fromId` does not render `toId`.
+ */
+export function getRenderProps(graph: DependencyGraph, fromId: string, toId: string): string[] | undefined {
+    const props = graph.renderProps.get(fromId)?.get(toId);
+    return props ? Array.from(props).sort() : undefined;
+}
+
+/**
+ * `type` when every kind in `kinds` is type-position, else `value`.  Untagged
+ * edges count as `value` so they are never skipped by a type-aware policy.
+ */
+export function edgeUsageOf(kinds: readonly EdgeKind[]): EdgeUsage {
+    return kinds.length > 0 && kinds.every(k => TYPE_ONLY_EDGE_KINDS.has(k)) ? 'type' : 'value';
+}
+
+/** Usage of the edge `fromId → toId` — see `edgeUsageOf`. */
+export function getEdgeUsage(graph: DependencyGraph, fromId: string, toId: string): EdgeUsage {
+    return edgeUsageOf(getEdgeKinds(graph, fromId, toId));
+}
@@ -1,10 +1,54 @@
+/**
+ * How a reference depends on its target.
+ *
+ * - `call`       : the target is invoked — `foo()`, `obj.method()`, `super()`
+ * - `new`        : the target class / constructor is instantiated
+ * - `type`       : the target appears in a type position (annotation,
+ *                  type argument, `typeof X`)
+ * - `extends`    : the target is named in an `extends` clause
+ * - `implements` : the target is named in an `implements` clause
+ * - `override`   : the source member overrides or implements the target,
+ *                  the same-named member of a base class or interface
+ * - `reexport`   : a barrel (`export … from`) forwards the target
+ * - `import`     : the target's module is loaded at runtime by a dynamic
+ *                  `import('./x')` or `require('./x')`, or (for a module
+ *                  symbol) by a side-effect `import './x'`
+ * - `render`     : the target component is rendered as a JSX element —
+ *                  `<UserCard user={u} />`
+ * - `reference`  : any other value read / write
+ */
+export type EdgeKind = 'call' | 'new' | 'type' | 'extends' | 'implements' | 'override' | 'reexport' | 'import' | 'render' | 'reference';
+
+/**
+ * Whether a dependency exists at runtime or only for the type checker.
+ * An edge is `type` usage when every one of its kinds is type-position;
+ * a single value-position kind (or an untagged edge) makes it `value`.
+ */
+export type EdgeUsage = 'type' | 'value';
+
+/**
+ * Edge kinds that are erased at compile time.  An override replaces its
+ * target rather than running it, so it only has to stay assignable to it.
+ */
+export const TYPE_ONLY_EDGE_KINDS: ReadonlySet<EdgeKind> = new Set<EdgeKind>(['type', 'implements', 'override']);
+
 /**
  * A → B  (forward):  symbol A directly references symbol B
  * B → A  (reverse):  symbol B is directly referenced by symbol A
  *
  * Both maps are kept in sync at write time so all reads are O(1).
+ *
+ * `edgeKinds` is keyed like `forward` (A → B → kinds).  One symbol can
+ * reference another in several ways (`class A extends B { m(): B }`), so
+ * each edge carries a set of kinds.
+ *
+ * `renderProps` is keyed the same way for `render` edges (A → component B):
+ * the props A passes when it renders B, by attribute name (`...` for a
+ * spread).
  */
 export interface DependencyGraph {
     forward: Map<string, Set<string>>;
     reverse: Map<string, Set<string>>;
+    edgeKinds: Map<string, Map<string, Set<EdgeKind>>>;
+    renderProps: Map<string, Map<string, Set<string>>>;
 }
@@ -1,8 +1,13 @@
 import * as vscode from 'vscode';
 import { SymbolIndex } from '../indexing/symbolIndex';
-import { SymbolEntry } from '../indexing/symbolExtractor';
-import { DependencyGraph } from '../graph/types';
+import { SymbolEntry, displaySymbolName } from '../indexing/symbolExtractor';
+import { DependencyGraph, EdgeKind, EdgeUsage } from '../graph/types';
+import { getEdgeKinds, edgeUsageOf, getRenderProps } from '../graph/graphStore';
 import { BlastRadiusResult, ImpactRoot, RootReason } from '../blast/blastRadiusEngine';
+import { SignatureCompatibility } from '../analysis/signatureCompatibility';
+import { SignatureDiff } from '../analysis/signatureDiff';
+import { CompileVerification, CompileVerdict } from '../analysis/compileVerifier';
+import { DiffHunk } from '../git/diffParser';
 import { PredictiveBlastRadiusResult } from '../intent/predictiveEngine';
 import { ResolvedConfidence } from '../intent/types';
 
@@ -23,9 +28,31 @@ interface ImpactedApi {
     symbol:     ImpactSymbolRef;
     role:       'root' | 'direct' | 'indirect';
     reason?:    RootReason;        // only set for roots
+    compatibility?: SignatureCompatibility; // only set for classified signature changes
+    signatureDiff?: SignatureDiff;          // only set for signature-change roots
+    movedTo?:   ImpactSymbolRef;   // only set for moved roots
+    usage?:     EdgeUsage;         // only set for direct / indirect
+    renderedProps?: string[];      // only set for symbols that render an impacted component
+    dispatchesTo?: ImpactSymbolRef[]; // only set for calls through an overridden base member
+    compile?:   CompileResult;     // only set when compile verification ran
+    unstagedEdits?: UnstagedEditRef[]; // only set for impacted symbols with unstaged edits
     depth:      number;
 }
 
+/** An unstaged hunk inside an impacted symbol, as lines of the file on disk. */
+interface UnstagedEditRef {
+    /** 1-based first changed line; for a pure deletion, the line the removed lines followed. */
+    line:      number;
+    /** Number of changed lines; 0 for a pure deletion. */
+    lineCount: number;
+}
+
+interface CompileResult {
+    verdict: CompileVerdict;
+    /** New type errors in the staged snapshot, for `breaks`. */
+    errors:  { message: string; filePath: string; line: number; column: number }[];
+}
+
 interface ImpactedModule {
     /** Workspace-relative file path. */
     filePath:      string;
@@ -37,11 +64,20 @@ interface ImpactedModule {
     indirectCount: number;
 }
 
+interface DependentRef extends ImpactSymbolRef {
+    /** How this symbol uses the root — `call`, `type`, `extends`, … */
+    edgeKinds:    EdgeKind[];
+    /** `type` when the root is only referenced in type positions. */
+    usage:        EdgeUsage;
+    /** When the root is a component this symbol renders: the props it passes. */
+    props?:       string[];
+}
+
 interface DownstreamDep {
     /** The root symbol that was changed. */
     root:         ImpactSymbolRef;
     /** Symbols that directly depend on this root (forward edges from root). */
-    dependents:   ImpactSymbolRef[];
+    dependents:   DependentRef[];
 }
 
 interface RiskArea {
@@ -59,7 +95,9 @@ interface ImpactZones {
 
 export interface ImpactReport {
     generatedAt:           string;
-    source:                'staged' | 'in-editor' | 'what-if';
+    source:                'staged' | 'working-tree' | 'range' | 'in-editor' | 'what-if';
+    /** For `range` reports: the revision range analysed, as typed (`main...HEAD`). */
+    range?:                string;
 
     impactedApis:          ImpactedApi[];
     impactedModules:       ImpactedModule[];
@@ -74,6 +112,12 @@ export interface ImpactReport {
         totalFiles:     number;
         highRiskCount:  number;
         unknownCount:   number;
+        /** Direct + indirect symbols reached only through type-only edges. */
+        typeOnlyCount:  number;
+        /** Impacted symbols that break compilation; only set when compile verification ran. */
+        breaksCompilationCount?: number;
+        /** Impacted symbols with unstaged edits; only set by staged analysis. */
+        unstagedEditCount?: number;
     };
 }
 
@@ -87,6 +131,14 @@ function toRelPath(absPath: string, rootFsPath: string): string {
     return p.startsWith(normalRoot) ? p.slice(normalRoot.length) : p;
 }
 
+function toCompileResult(verification: CompileVerification | undefined, rootFsPath: string): CompileResult | undefined {
+    if (!verification) { return undefined; }
+    return {
+        verdict: verification.verdict,
+        errors:  verification.errors.map(e => ({ ...e, filePath: toRelPath(e.filePath, rootFsPath) })),
+    };
+}
+
 function makeRef(
     id: string,
     symbolIndex: SymbolIndex,
@@ -94,22 +146,24 @@ function makeRef(
 ): ImpactSymbolRef {
     const entry = symbolIndex.get(id);
     if (entry) {
+        const filePath = toRelPath(entry.filePath, rootFsPath);
         return {
             id,
-            name:      entry.name,
+            name:      displaySymbolName(entry.name, filePath),
             kind:      entry.kind,
-            filePath:  toRelPath(entry.filePath, rootFsPath),
+            filePath,
             startLine: entry.startLine,
             exported:  entry.isExported,
         };
     }
     // Ghost / deleted symbol — parse the raw ID  (absPath#name)
-    const hash = id.indexOf('#');
+    const hash     = id.indexOf('#');
+    const filePath = hash >= 0 ? toRelPath(id.slice(0, hash), rootFsPath) : '';
     return {
         id,
-        name:      hash >= 0 ? id.slice(hash + 1) : id,
+        name:      hash >= 0 ? displaySymbolName(id.slice(hash + 1), filePath) : id,
         kind:      'unknown',
-        filePath:  hash >= 0 ? toRelPath(id.slice(0, hash), rootFsPath) : '',
+        filePath,
         startLine: 0,
         exported:  false,
     };
@@ -126,6 +180,8 @@ function classifyRisk(
     rootMap: Map<string, ImpactRoot>,
     depthMap: Map<string, number>,
     confidenceMap: Map<string, ResolvedConfidence> | undefined,
+    compileVerification: Map<string, CompileVerification> | undefined,
+    unstagedEdits: Map<string, DiffHunk[]> | undefined,
 ): { level: 'high' | 'medium' | 'low'; reasons: string[] } | null {
     const reasons: string[] = [];
 
@@ -135,6 +191,18 @@ function classifyRisk(
         reasons.push(`root: ${root.reason}`);
     }
 
+    // The type checker found new errors in it
+    const breaks = compileVerification?.get(id)?.verdict === 'breaks';
+    if (breaks) {
+        reasons.push('breaks compilation');
+    }
+
+    // Being edited but not staged — the commit may leave its fix behind
+    const unstaged = unstagedEdits?.has(id) ?? false;
+    if (unstaged) {
+        reasons.push('has unstaged edits');
+    }
+
     // Deep transitive nodes (depth ≥ 3) are harder to verify
     const depth = depthMap.get(id);
     if (depth !== undefined && depth >= 3) {
@@ -153,8 +221,8 @@ function classifyRisk(
 
     // Determine level
     const level =
-        (root && HIGH_RISK_REASONS.has(root.reason)) ? 'high' :
-        (depth !== undefined && depth >= 3)           ? 'medium' :
+        (root && HIGH_RISK_REASONS.has(root.reason)) || breaks ? 'high' :
+        (depth !== undefined && depth >= 3) || unstaged         ? 'medium' :
         'low';
 
     return { level, reasons };
@@ -187,10 +255,21 @@ export function buildImpactReport(
         const ref = makeRef(id, symbolIndex, rootFsPath);
         // Include if: exported (public API), or is a root (always relevant)
         if (!ref.exported && role !== 'root') { return; }
+        const movedTo = rootMap.get(id)?.movedTo;
         impactedApis.push({
             symbol: ref,
             role,
             reason: rootMap.get(id)?.reason,
+            compatibility: rootMap.get(id)?.compatibility,
+            signatureDiff: rootMap.get(id)?.signatureDiff,
+            movedTo: movedTo ? makeRef(movedTo, symbolIndex, rootFsPath) : undefined,
+            usage:  role === 'root' ? undefined : result.usageMap.get(id),
+            renderedProps: role === 'root' ? undefined : result.renderedProps.get(id),
+            dispatchesTo: role === 'root' ? undefined : result.dispatchTargets.get(id)?.map(t => makeRef(t, symbolIndex, rootFsPath)),
+            compile: role === 'root' ? undefined : toCompileResult(result.compileVerification?.get(id), rootFsPath),
+            unstagedEdits: role === 'root' ? undefined : result.unstagedEdits?.get(id)?.map(h => ({
+                line: h.newStartLine, lineCount: h.newLineCount,
+            })),
             depth:  result.depthMap.get(id) ?? 0,
         });
     };
@@ -242,7 +321,15 @@ export function buildImpactReport(
         if (!dependents || dependents.size === 0) { continue; }
         downstreamDependencies.push({
             root:       makeRef(root.symbolId, symbolIndex, rootFsPath),
-            dependents: Array.from(dependents).map(id => makeRef(id, symbolIndex, rootFsPath)),
+            dependents: Array.from(dependents).map(id => {
+                const edgeKinds = getEdgeKinds(graph, id, root.symbolId);
+                return {
+                    ...makeRef(id, symbolIndex, rootFsPath),
+                    edgeKinds,
+                    usage: edgeUsageOf(edgeKinds),
+                    props: getRenderProps(graph, id, root.symbolId),
+                };
+            }),
         });
     }
 
@@ -250,7 +337,7 @@ export function buildImpactReport(
     const highRiskAreas: RiskArea[] = [];
     const allImpacted = [...rootIds, ...directIds, ...indirectIds];
     for (const id of allImpacted) {
-        const risk = classifyRisk(id, rootMap, result.depthMap, confidenceMap);
+        const risk = classifyRisk(id, rootMap, result.depthMap, confidenceMap, result.compileVerification, result.unstagedEdits);
         if (risk) {
             highRiskAreas.push({
                 symbol:    makeRef(id, symbolIndex, rootFsPath),
@@ -298,6 +385,11 @@ export function buildImpactReport(
             totalFiles:    impactedModules.length,
             highRiskCount: highRiskAreas.filter(r => r.riskLevel === 'high').length,
             unknownCount:  unknown.length,
+            typeOnlyCount: [...result.usageMap.values()].filter(u => u === 'type').length,
+            breaksCompilationCount: result.compileVerification
+                ? [...result.compileVerification.values()].filter(v => v.verdict === 'breaks').length
+                : undefined,
+            unstagedEditCount: result.unstagedEdits?.size,
         },
     };
 }
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Workspace-root file with one exclude glob per line (see `loadIndexFilter`). */
+export const IGNORE_FILE_NAME = '.ripplecheckignore';
+
+/** Settings section holding `include` / `exclude`. */
+export const INDEX_FILTER_SECTION = 'ripplecheck.index';
+
+/**
+ * Always excluded, whatever the configuration says: dependencies are never
+ * workspace code (workspace packages are mapped back to their source, see
+ * `sourceMapper`) and the cache directory is written by this extension.
+ */
+const ALWAYS_EXCLUDED = ['**/node_modules/**', '**/.blastradius/**'];
+
+/**
+ * Which files of a workspace folder are indexed, walked and watched.
+ * Patterns are globs relative to the folder root.
+ */
+export interface IndexFilter {
+    /** A file must match one of these; empty means every file. */
+    include: string[];
+    /**
+     * Applied in order after `include`, the last matching pattern winning.
+     * A `!` prefix re-includes, as in `.gitignore`.
+     */
+    exclude: string[];
+}
+
+interface ExcludeRule {
+    pattern: RegExp;
+    negated: boolean;
+}
+
+interface CompiledIndexFilter {
+    include: RegExp[];
+    exclude: ExcludeRule[];
+    /** Stable text of the source patterns, hashed into the cache key. */
+    key: string;
+}
+
+// ---------------------------------------------------------------------------
+// Glob matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Compile a `.gitignore`-style glob:
+ *
+ *   - `*` and `?` stay within one path segment, `**` spans segments and
+ *     `{a,b}` is an alternation;
+ *   - a pattern without a `/` (other than a trailing one) matches at any
+ *     depth, a leading `/` anchors it to the root;
+ *   - a pattern naming a directory also matches everything below it.
+ */
+function compileGlob(glob: string): RegExp {
+    let body = glob.replace(/\/+$/, '');
+    if (body.startsWith('/')) {
+        body = body.slice(1);
+    } else if (!body.includes('/')) {
+        body = `**/${body}`;
+    }
+
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < body.length; i++) {
+        const ch = body[i];
+        if (body.startsWith('**/', i)) { source += '(?:.*/)?'; i += 2; continue; }
+        if (body.startsWith('**', i))  { source += '.*';        i += 1; continue; }
+        if (ch === '*') { source += '[^/]*'; continue; }
+        if (ch === '?') { source += '[^/]';  continue; }
+        if (ch === '{') { source += '(?:'; braces++; continue; }
+        if (ch === '}' && braces > 0) { source += ')'; braces--; continue; }
+        if (ch === ',' && braces > 0) { source += '|'; continue; }
+        source += ch.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+    return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+function compileIndexFilter(filter: IndexFilter): CompiledIndexFilter {
+    const exclude = [...ALWAYS_EXCLUDED, ...filter.exclude].map(glob => {
+        const negated = glob.startsWith('!');
+        return { pattern: compileGlob(negated ? glob.slice(1) : glob), negated };
+    });
+    return {
+        include: filter.include.map(compileGlob),
+        exclude,
+        key:     JSON.stringify(filter),
+    };
+}
+
+function matchesFilter(relPath: string, filter: CompiledIndexFilter): boolean {
+    if (filter.include.length > 0 && !filter.include.some(p => p.test(relPath))) { return false; }
+    let excluded = false;
+    for (const rule of filter.exclude) {
+        if (rule.pattern.test(relPath)) { excluded = !rule.negated; }
+    }
+    return !excluded;
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Non-empty, non-comment lines of the folder's `.ripplecheckignore`. */
+function readIgnoreFile(rootFsPath: string): string[] {
+    try {
+        return fs.readFileSync(path.join(rootFsPath, IGNORE_FILE_NAME), 'utf8')
+            .split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line !== '' && !line.startsWith('#'));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Read a folder's filter: `ripplecheck.index.include` / `.exclude` from the
+ * settings (the exclude default skips build output such as `dist` and
+ * `.next`), followed by the lines of `.ripplecheckignore`.
+ */
+export function loadIndexFilter(rootFsPath: string): IndexFilter {
+    const config  = vscode.workspace.getConfiguration(INDEX_FILTER_SECTION, vscode.Uri.file(rootFsPath));
+    const include = config.get<string[]>('include') ?? [];
+    const exclude = config.get<string[]>('exclude') ?? [];
+    return { include, exclude: [...exclude, ...readIgnoreFile(rootFsPath)] };
+}
+
+/**
+ * Filters by workspace folder, loaded on first use.  The filter only changes
+ * when the user edits it, so every check shares one compiled copy instead
+ * of re-reading the settings and ignore file per file.
+ */
+const filtersByRoot = new Map<string, CompiledIndexFilter>();
+
+function normalizeRoot(rootFsPath: string): string {
+    return rootFsPath.replace(/\\/g, '/').replace(/\/$/, '');
+}
+
+function getIndexFilter(rootFsPath: string): CompiledIndexFilter {
+    const root = normalizeRoot(rootFsPath);
+    let filter = filtersByRoot.get(root);
+    if (!filter) {
+        filter = compileIndexFilter(loadIndexFilter(root));
+        filtersByRoot.set(root, filter);
+    }
+    return filter;
+}
+
+/** Drop the folder's loaded filter so the next check reads the current configuration. */
+export function reloadIndexFilter(rootFsPath: string): void {
+    filtersByRoot.delete(normalizeRoot(rootFsPath));
+}
+
+/** Text identifying the folder's current filter, for cache validation. */
+export function indexFilterKey(rootFsPath: string): string {
+    return getIndexFilter(rootFsPath).key;
+}
+
+/**
+ * True when the filter of the folder at `rootFsPath` admits `filePath`, an
+ * absolute path inside that folder.
+ */
+export function isIncludedByIndexFilter(filePath: string, rootFsPath: string): boolean {
+    const root = normalizeRoot(rootFsPath);
+    return matchesFilter(filePath.slice(root.length + 1), getIndexFilter(root));
+}
@@ -1,17 +1,186 @@
-import { Project } from 'ts-morph';
+import { Project, ts } from 'ts-morph';
 import * as path from 'path';
+import * as fs from 'fs';
 
+export interface TsConfigSet {
+    /**
+     * Every tsconfig that contributes source files: the root config first,
+     * then each project reachable through `references` (depth-first, deduped).
+     */
+    projectConfigs: string[];
+    /**
+     * Every config file that influences the analysis — `projectConfigs` plus
+     * all files pulled in through `extends` chains.  Used for cache hashing.
+     */
+    allConfigFiles: string[];
+}
+
+// ---------------------------------------------------------------------------
+// tsconfig discovery
+// ---------------------------------------------------------------------------
+
+function readConfigJson(configPath: string): Record<string, any> | null {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error || !config) { return null; }
+    return config;
+}
+
+/**
+ * A project reference `path` may name a directory (implies `tsconfig.json`)
+ * or a config file directly — same rule tsc applies.
+ */
+function resolveReferencePath(configDir: string, refPath: string): string {
+    const abs = path.resolve(configDir, refPath);
+    try {
+        if (fs.statSync(abs).isDirectory()) { return path.join(abs, 'tsconfig.json'); }
+    } catch { /* missing — returned as-is and skipped by the reader */ }
+    return abs;
+}
+
+/**
+ * Resolve one `extends` entry.  Relative / absolute paths are resolved
+ * against the config's directory (`.json` is optional, as in tsc); bare
+ * specifiers such as `@tsconfig/node20/tsconfig.json` go through Node
+ * resolution from that directory.
+ */
+function resolveExtendsPath(configDir: string, spec: string): string | null {
+    if (spec.startsWith('.') || path.isAbsolute(spec)) {
+        const abs = path.resolve(configDir, spec);
+        return fs.existsSync(abs) ? abs : (fs.existsSync(`${abs}.json`) ? `${abs}.json` : null);
+    }
+    for (const candidate of [spec, `${spec}/tsconfig.json`]) {
+        try { return require.resolve(candidate, { paths: [configDir] }); } catch { /* try next */ }
+    }
+    return null;
+}
+
+/**
+ * Walk the tsconfig graph rooted at `rootConfigPath`, following `extends`
+ * chains and project `references`.
+ */
+export function collectTsConfigFiles(rootConfigPath: string): TsConfigSet {
+    const projectConfigs: string[] = [];
+    const allConfigFiles = new Set<string>();
+
+    const visitExtends = (configPath: string, config: Record<string, any>): void => {
+        const specs: string[] = typeof config.extends === 'string'
+            ? [config.extends]
+            : Array.isArray(config.extends) ? config.extends : [];
+        for (const spec of specs) {
+            const resolved = resolveExtendsPath(path.dirname(configPath), spec);
+            if (!resolved || allConfigFiles.has(resolved)) { continue; }
+            const base = readConfigJson(resolved);
+            if (!base) { continue; }
+            allConfigFiles.add(resolved);
+            visitExtends(resolved, base);
+        }
+    };
+
+    const visitProject = (configPath: string): void => {
+        const normalized = path.resolve(configPath);
+        if (projectConfigs.includes(normalized)) { return; }
+        const config = readConfigJson(normalized);
+        if (!config) { return; }
+
+        projectConfigs.push(normalized);
+        allConfigFiles.add(normalized);
+        visitExtends(normalized, config);
+
+        const references: Array<{ path?: string }> = Array.isArray(config.references) ? config.references : [];
+        for (const ref of references) {
+            if (typeof ref?.path !== 'string') { continue; }
+            visitProject(resolveReferencePath(path.dirname(normalized), ref.path));
+        }
+    };
+
+    visitProject(rootConfigPath);
+    return { projectConfigs, allConfigFiles: [...allConfigFiles] };
+}
+
+/**
+ * The folder's root project config: `tsconfig.json`, or `jsconfig.json` for
+ * a JavaScript project.  As in VS Code, a tsconfig wins when both exist.
+ */
+export function findProjectConfig(workspaceRootFsPath: string): string {
+    const tsConfig = path.join(workspaceRootFsPath, 'tsconfig.json');
+    const jsConfig = path.join(workspaceRootFsPath, 'jsconfig.json');
+    return !fs.existsSync(tsConfig) && fs.existsSync(jsConfig) ? jsConfig : tsConfig;
+}
+
+// ---------------------------------------------------------------------------
+// Project loading
+// ---------------------------------------------------------------------------
+
+/** Options that change how a project's imports resolve or its JSX compiles. */
+const RESOLUTION_OPTIONS = ['paths', 'baseUrl', 'jsx'] as const;
+
+/**
+ * The resolution options `configPath` (with its `extends` chain) sets to
+ * something other than `rootOptions`.
+ */
+function ignoredResolutionOptions(configPath: string, rootOptions: ts.CompilerOptions): string[] {
+    const parsed = ts.getParsedCommandLineOfConfigFile(configPath, {}, {
+        ...ts.sys,
+        onUnRecoverableConfigFileDiagnostic: () => { /* unreadable — nothing to compare */ },
+    });
+    if (!parsed) { return []; }
+    return RESOLUTION_OPTIONS.filter(name =>
+        parsed.options[name] !== undefined &&
+        JSON.stringify(parsed.options[name]) !== JSON.stringify(rootOptions[name])
+    );
+}
+
+/**
+ * Load the workspace's ts-morph project.
+ *
+ * Solution-style roots (`"files": []` plus `references`) contribute no files
+ * of their own, so every referenced project is added to the same Project.
+ * One program across all packages means the type checker resolves imports
+ * between them, so symbol ids and dependency edges span the whole set.
+ *
+ * The root config's `compilerOptions` apply to every referenced project:
+ * a ts-morph Project is a single program with a single set of options, so a
+ * referenced config contributes its files but not its own `paths`,
+ * `baseUrl` or `jsx`.  A reference whose options differ is logged, since
+ * imports that only resolve through its own mappings stay unresolved.
+ *
+ * A `jsconfig.json` implies `allowJs` unless it says otherwise, so its
+ * `.js` / `.jsx` files are loaded and typed from their JSDoc.
+ */
 export function loadProject(workspaceRootFsPath: string): Project {
-    const tsConfigFilePath = path.join(workspaceRootFsPath, 'tsconfig.json');
+    const tsConfigFilePath = findProjectConfig(workspaceRootFsPath);
+    const { projectConfigs } = collectTsConfigFiles(tsConfigFilePath);
+    const isJsConfig = path.basename(tsConfigFilePath) === 'jsconfig.json';
 
     const project = new Project({
         tsConfigFilePath,
+        compilerOptions: isJsConfig
+            ? { allowJs: readConfigJson(tsConfigFilePath)?.compilerOptions?.allowJs ?? true }
+            : undefined,
         skipAddingFilesFromTsConfig: false,
         skipFileDependencyResolution: false,
     });
 
+    const rootOptions = project.getCompilerOptions();
+    for (const configPath of projectConfigs.slice(1)) {
+        try {
+            project.addSourceFilesFromTsConfig(configPath);
+        } catch (err) {
+            console.warn(`[RippleCheck] Could not load referenced project ${configPath}:`, err);
+            continue;
+        }
+        const ignored = ignoredResolutionOptions(configPath, rootOptions);
+        if (ignored.length > 0) {
+            console.warn(
+                `[RippleCheck] Referenced project ${configPath} sets its own ${ignored.join(', ')} — ` +
+                `the root config's options apply instead`
+            );
+        }
+    }
+
     console.log(
-        `[RippleCheck] Project loaded — ${project.getSourceFiles().length} source file(s) found`
+        `[RippleCheck] Project loaded — ${project.getSourceFiles().length} source file(s) found ` +
+        `across ${projectConfigs.length} tsconfig project(s)`
     );
 
     return project;
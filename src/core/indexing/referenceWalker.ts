@@ -1,6 +1,36 @@
-import { Project, Node } from 'ts-morph';
-import { SymbolIndex } from './symbolIndex';
-import { DependencyGraph } from '../graph/types';
+import {
+    Project,
+    Node,
+    SourceFile,
+    Symbol as MorphSymbol,
+    SyntaxKind,
+    Type,
+    VariableDeclaration,
+    NewExpression,
+    CallExpression,
+    ExportDeclaration,
+    ObjectLiteralExpression,
+    MethodDeclaration,
+    PropertyAssignment,
+    JsxOpeningElement,
+    JsxSelfClosingElement,
+    StringLiteral,
+    NoSubstitutionTemplateLiteral,
+    ts,
+} from 'ts-morph';
+import { SymbolIndex, isIndexableFile } from './symbolIndex';
+import {
+    getFunctionInitializer,
+    getObjectLiteralInitializer,
+    getExportSpecifierName,
+    getCommonJsExport,
+    starExportName,
+    moduleSymbolId,
+    DEFAULT_EXPORT_NAME,
+} from './symbolExtractor';
+import { SourcePathMapper, createSourcePathMapper } from './sourceMapper';
+import { DependencyGraph, EdgeKind } from '../graph/types';
+import { addEdgeKind, addRenderProps } from '../graph/graphStore';
 
 // ---------------------------------------------------------------------------
 // Owner stack helpers
@@ -12,6 +42,9 @@ import { DependencyGraph } from '../graph/types';
  */
 function isOwnerNode(node: Node): boolean {
     return (
+        // The file is the outermost owner: top-level statements are
+        // attributed to its `<module>` symbol.
+        Node.isSourceFile(node) ||
         Node.isFunctionDeclaration(node) ||
         Node.isFunctionExpression(node) ||
         Node.isMethodDeclaration(node) ||
@@ -19,6 +52,11 @@ function isOwnerNode(node: Node): boolean {
         Node.isArrowFunction(node) ||
         Node.isGetAccessorDeclaration(node) ||
         Node.isSetAccessorDeclaration(node) ||
+        Node.isClassStaticBlockDeclaration(node) ||
+        // `export default <expression>` and barrel re-export specifiers are
+        // indexed symbols of their own.
+        Node.isExportAssignment(node) ||
+        Node.isExportSpecifier(node) ||
         // Class bodies must be on the owner stack so that references inside
         // class property initialisers (e.g. `scale = coerceD3(...)`) are
         // attributed to the class rather than dropped (ownerStack empty).
@@ -29,17 +67,217 @@ function isOwnerNode(node: Node): boolean {
     );
 }
 
+/** The nearest ancestor of `expr` that is not a parenthesis or `as` / `satisfies` wrapper. */
+function getUnwrappedParent(expr: Node): Node | undefined {
+    let parent = expr.getParent();
+    while (
+        parent && (
+            Node.isParenthesizedExpression(parent) ||
+            Node.isAsExpression(parent) ||
+            Node.isSatisfiesExpression(parent)
+        )
+    ) {
+        parent = parent.getParent();
+    }
+    return parent;
+}
+
+/**
+ * Find the variable or object-literal member a function expression / arrow
+ * function is bound to, e.g. `const handler = async (req) => {…}` or
+ * `{ list: () => {…} }`.  Parentheses and `as` / `satisfies` wrappers are
+ * skipped so the result agrees with `getFunctionInitializer`.
+ */
+function getBinding(fn: Node): VariableDeclaration | PropertyAssignment | undefined {
+    const parent = getUnwrappedParent(fn);
+    if (
+        (Node.isVariableDeclaration(parent) || Node.isPropertyAssignment(parent)) &&
+        getFunctionInitializer(parent) === fn
+    ) {
+        return parent;
+    }
+    return undefined;
+}
+
+/** Whether `node` is declared directly in a source file or namespace body. */
+function isModuleLevel(node: Node): boolean {
+    const container = Node.isVariableDeclaration(node) ? node.getVariableStatement()?.getParent() : node.getParent();
+    return Node.isSourceFile(container) || Node.isModuleBlock(container);
+}
+
+/**
+ * Prefix `name` with the namespaces enclosing `node`, matching the qualified
+ * names `extractNamespaceSymbols` indexes (`Outer.Inner.name`).  A dotted
+ * declaration (`namespace A.B {}`) is one node named `A.B` wrapping a nested
+ * `B`, so module declarations whose parent is a module declaration are skipped.
+ */
+function qualifyName(node: Node, name: string): string {
+    const prefixes: string[] = [];
+    for (const ancestor of node.getAncestors()) {
+        if (!Node.isModuleDeclaration(ancestor)) { continue; }
+        if (Node.isModuleDeclaration(ancestor.getParent())) { continue; }
+        prefixes.unshift(ancestor.getName());
+    }
+    return [...prefixes, name].join('.');
+}
+
+/**
+ * The name a function or class declaration is indexed under — its own name,
+ * or `default` for an anonymous `export default function/class`.
+ */
+function declaredName(node: Node): string | undefined {
+    if (
+        !Node.isFunctionDeclaration(node) && !Node.isFunctionExpression(node) &&
+        !Node.isClassDeclaration(node)    && !Node.isClassExpression(node)
+    ) { return undefined; }
+    const name = node.getName?.();
+    if (name) { return qualifyName(node, name); }
+    const isDefault = (Node.isFunctionDeclaration(node) || Node.isClassDeclaration(node)) && node.isDefaultExport();
+    return isDefault ? DEFAULT_EXPORT_NAME : undefined;
+}
+
+/** `Foo.member` for a member of class `Foo`; null for anonymous classes. */
+function classMemberName(member: Node, memberName: string): string | null {
+    const cls = member.getParent();
+    if (!Node.isClassDeclaration(cls) && !Node.isClassExpression(cls)) { return null; }
+    const className = declaredName(cls);
+    return className ? `${className}.${memberName}` : null;
+}
+
+// ---------------------------------------------------------------------------
+// Nested functions and object-literal members
+// ---------------------------------------------------------------------------
+
+/** `${ownerId}.${name}` when such a child symbol is indexed. */
+function childSymbolId(ownerId: string | null, name: string, symbolIndex: SymbolIndex): string | null {
+    if (!ownerId) { return null; }
+    const id = `${ownerId}.${name}`;
+    return symbolIndex.has(id) ? id : null;
+}
+
+/**
+ * Id of the indexed callable a nested function is declared in, following
+ * the rules of `extractNestedSymbols`: anonymous callbacks are looked
+ * through, a class boundary ends the search.  Null for module-level code.
+ */
+function getEnclosingCallableId(node: Node, filePath: string, symbolIndex: SymbolIndex): string | null {
+    for (const ancestor of node.getAncestors()) {
+        if (Node.isClassDeclaration(ancestor) || Node.isClassExpression(ancestor)) { return null; }
+        if (
+            Node.isFunctionDeclaration(ancestor) || Node.isFunctionExpression(ancestor) ||
+            Node.isArrowFunction(ancestor)       || Node.isMethodDeclaration(ancestor)  ||
+            Node.isConstructorDeclaration(ancestor) ||
+            Node.isGetAccessorDeclaration(ancestor) || Node.isSetAccessorDeclaration(ancestor)
+        ) {
+            const id = getOwnerSymbolId(ancestor, filePath, symbolIndex);
+            if (id) { return id; }
+        }
+    }
+    return null;
+}
+
+/**
+ * Id of the symbol an object literal's members are indexed under (see
+ * `extractObjectLiteralSymbols`): the module-level variable or
+ * `export default` it is bound to, or the member of an enclosing literal.
+ */
+function getObjectLiteralOwnerId(literal: ObjectLiteralExpression, filePath: string, symbolIndex: SymbolIndex): string | null {
+    const parent = getUnwrappedParent(literal);
+    if (Node.isVariableDeclaration(parent)) {
+        if (getObjectLiteralInitializer(parent) !== literal || !Node.isSourceFile(parent.getVariableStatement()?.getParent())) { return null; }
+        const id = `${filePath}#${parent.getName()}`;
+        return symbolIndex.has(id) ? id : null;
+    }
+    if (Node.isExportAssignment(parent)) {
+        const id = `${filePath}#${DEFAULT_EXPORT_NAME}`;
+        return symbolIndex.has(id) ? id : null;
+    }
+    if (Node.isPropertyAssignment(parent) && getObjectLiteralInitializer(parent) === literal) {
+        return getObjectLiteralMemberId(parent, filePath, symbolIndex);
+    }
+    // `exports.api = { … }`
+    const cjs = getCommonJsExport(parent);
+    if (cjs && cjs.value === literal && cjs.name !== DEFAULT_EXPORT_NAME) {
+        const id = `${filePath}#${cjs.name}`;
+        return symbolIndex.has(id) ? id : null;
+    }
+    return null;
+}
+
+/**
+ * Whether `node` is part of the target of a CommonJS export — `exports.x`,
+ * `module.exports.x` or `module.exports` on the left of the `=`.  The target
+ * declares the export rather than reading it.
+ */
+function isInCommonJsExportTarget(node: Node): boolean {
+    let target = node;
+    for (let parent = node.getParent(); Node.isPropertyAccessExpression(parent); parent = parent.getParent()) {
+        target = parent;
+    }
+    const assignment = target.getParent();
+    return Node.isBinaryExpression(assignment) && assignment.getLeft() === target && getCommonJsExport(assignment) !== undefined;
+}
+
+/** Whether `literal` is the value of `module.exports = { … }`, whose members are exports of their own. */
+function isModuleExportsLiteral(literal: ObjectLiteralExpression): boolean {
+    const cjs = getCommonJsExport(getUnwrappedParent(literal));
+    return cjs?.name === DEFAULT_EXPORT_NAME && cjs.value === literal;
+}
+
+/** `api.getUser` for a method or property of a literal indexed as `api`. */
+function getObjectLiteralMemberId(
+    member: MethodDeclaration | PropertyAssignment,
+    filePath: string,
+    symbolIndex: SymbolIndex,
+): string | null {
+    const literal = member.getParent();
+    if (!Node.isObjectLiteralExpression(literal)) { return null; }
+    if (isModuleExportsLiteral(literal)) {
+        const id = `${filePath}#${member.getName()}`;
+        return symbolIndex.has(id) ? id : null;
+    }
+    return childSymbolId(getObjectLiteralOwnerId(literal, filePath, symbolIndex), member.getName(), symbolIndex);
+}
+
+// ---------------------------------------------------------------------------
+// Owner-node → symbol id
+// ---------------------------------------------------------------------------
+
 /**
  * Map an owner-node to the symbol id it was indexed under.
  * Returns null if the node cannot be mapped (e.g. anonymous function not in index).
  */
 function getOwnerSymbolId(node: Node, filePath: string, symbolIndex: SymbolIndex): string | null {
     const has = (id: string) => symbolIndex.has(id) ? id : null;
-    const p   = (name: string) => `${filePath}#${name}`;
+    const p   = (name: string | null) => name ? has(`${filePath}#${name}`) : null;
+
+    if (Node.isSourceFile(node)) { return has(moduleSymbolId(filePath)); }
 
-    if (Node.isFunctionDeclaration(node) || Node.isFunctionExpression(node)) {
-        const name = node.getName?.();
-        return name ? has(p(name)) : null;
+    if (Node.isFunctionDeclaration(node)) {
+        // A function declared inside another is indexed under it (`outer.helper`)
+        if (!isModuleLevel(node)) {
+            const name = node.getName();
+            return name ? childSymbolId(getEnclosingCallableId(node, filePath, symbolIndex), name, symbolIndex) : null;
+        }
+        return p(declaredName(node) ?? null);
+    }
+
+    if (Node.isArrowFunction(node) || Node.isFunctionExpression(node)) {
+        // Only track function expressions that are directly bound to a named
+        // variable or object-literal member — they are indexed under its name.
+        const binding = getBinding(node);
+        if (Node.isPropertyAssignment(binding)) { return getObjectLiteralMemberId(binding, filePath, symbolIndex); }
+        if (!binding) {
+            // `exports.handler = (req) => {…}`
+            const cjs = getCommonJsExport(getUnwrappedParent(node));
+            return cjs?.value === node ? p(cjs.name) : null;
+        }
+        const enclosing = getEnclosingCallableId(binding, filePath, symbolIndex);
+        return enclosing ? childSymbolId(enclosing, binding.getName(), symbolIndex) : p(binding.getName());
+    }
+
+    if (Node.isMethodDeclaration(node) && Node.isObjectLiteralExpression(node.getParent())) {
+        return getObjectLiteralMemberId(node, filePath, symbolIndex);
     }
 
     if (
@@ -47,35 +285,36 @@ function getOwnerSymbolId(node: Node, filePath: string, symbolIndex: SymbolIndex
         Node.isGetAccessorDeclaration(node) ||
         Node.isSetAccessorDeclaration(node)
     ) {
-        const parent = node.getParent();
-        if (!Node.isClassDeclaration(parent) && !Node.isClassExpression(parent)) { return null; }
-        const className = parent.getName?.();
-        return className ? has(p(`${className}.${node.getName()}`)) : null;
+        // A get/set pair shares one accessor symbol, so both halves map here.
+        return p(classMemberName(node, node.getName()));
     }
 
     if (Node.isConstructorDeclaration(node)) {
-        // Constructor bodies are attributed to the class symbol itself
-        const parent = node.getParent();
-        if (!Node.isClassDeclaration(parent) && !Node.isClassExpression(parent)) { return null; }
-        const className = parent.getName?.();
-        return className ? has(p(className)) : null;
+        return p(classMemberName(node, 'constructor'));
     }
 
-    if (Node.isArrowFunction(node)) {
-        // Only track arrow functions that are directly assigned to a named variable
-        const parent = node.getParent();
-        if (Node.isVariableDeclaration(parent)) {
-            return has(p(parent.getName()));
-        }
-        return null;
+    if (Node.isClassStaticBlockDeclaration(node)) {
+        const cls = node.getParent();
+        if (!Node.isClassDeclaration(cls) && !Node.isClassExpression(cls)) { return null; }
+        return p(classMemberName(node, `static[${cls.getStaticBlocks().indexOf(node)}]`));
     }
 
     if (Node.isClassDeclaration(node) || Node.isClassExpression(node)) {
         // The class symbol owns all references in class property initialisers.
-        // Method declarations push themselves on top, so this only fires for
-        // class-body-level code (initialisers, decorators, static blocks).
-        const name = node.getName?.();
-        return name ? has(p(name)) : null;
+        // Members push themselves on top, so this only fires for
+        // class-body-level code (initialisers, decorators).
+        return p(declaredName(node) ?? null);
+    }
+
+    if (Node.isExportAssignment(node)) {
+        return p(DEFAULT_EXPORT_NAME);
+    }
+
+    if (Node.isExportSpecifier(node)) {
+        // Only `export { … } from '…'` specifiers are indexed (as `reexport`)
+        return node.getExportDeclaration().getModuleSpecifier()
+            ? p(getExportSpecifierName(node))
+            : null;
     }
 
     return null;
@@ -87,73 +326,437 @@ function getOwnerSymbolId(node: Node, filePath: string, symbolIndex: SymbolIndex
 
 /**
  * Given a ts-morph declaration Node that lives in a workspace file, return the
- * symbol id we stored in the SymbolIndex for it. Returns null when the
+ * symbol id we stored in the SymbolIndex for it.  Ids are built from names,
+ * so a declaration in a built `.d.ts` resolves against `declFilePath`, the
+ * source it was mapped to (see `toIndexedPath`). Returns null when the
  * declaration kind is not indexed (e.g. import specifiers, parameters).
  */
 function declarationToSymbolId(decl: Node, declFilePath: string, symbolIndex: SymbolIndex): string | null {
     const has = (id: string) => symbolIndex.has(id) ? id : null;
-    const p   = (name: string) => `${declFilePath}#${name}`;
+    const p   = (name: string | null) => name ? has(`${declFilePath}#${name}`) : null;
 
-    if (Node.isFunctionDeclaration(decl) || Node.isFunctionExpression(decl)) {
-        const name = decl.getName?.();
-        return name ? has(p(name)) : null;
+    // Nested functions and object-literal members resolve exactly as they do
+    // when they own references
+    if (Node.isFunctionDeclaration(decl)) {
+        return getOwnerSymbolId(decl, declFilePath, symbolIndex);
     }
-    if (Node.isClassDeclaration(decl) || Node.isClassExpression(decl)) {
-        const name = decl.getName?.();
-        return name ? has(p(name)) : null;
+    if (Node.isVariableDeclaration(decl)) {
+        const enclosing = getEnclosingCallableId(decl, declFilePath, symbolIndex);
+        if (enclosing) { return childSymbolId(enclosing, decl.getName(), symbolIndex); }
+    }
+    if (
+        (Node.isMethodDeclaration(decl) && Node.isObjectLiteralExpression(decl.getParent())) ||
+        Node.isPropertyAssignment(decl)
+    ) {
+        return getObjectLiteralMemberId(decl, declFilePath, symbolIndex);
     }
-    if (Node.isInterfaceDeclaration(decl))  { return has(p(decl.getName())); }
-    if (Node.isTypeAliasDeclaration(decl))  { return has(p(decl.getName())); }
-    if (Node.isEnumDeclaration(decl))       { return has(p(decl.getName())); }
-    if (Node.isVariableDeclaration(decl))   { return has(p(decl.getName())); }
 
-    if (Node.isPropertyDeclaration(decl)) {
-        const cls = decl.getParent();
-        if (!Node.isClassDeclaration(cls) && !Node.isClassExpression(cls)) { return null; }
-        const className = cls.getName?.();
-        return className ? has(p(`${className}.${decl.getName()}`)) : null;
+    if (
+        Node.isFunctionExpression(decl) ||
+        Node.isClassDeclaration(decl)    || Node.isClassExpression(decl)
+    ) {
+        return p(declaredName(decl) ?? null);
     }
     if (
+        Node.isInterfaceDeclaration(decl) ||
+        Node.isTypeAliasDeclaration(decl) ||
+        Node.isEnumDeclaration(decl)      ||
+        Node.isVariableDeclaration(decl)
+    ) {
+        return p(qualifyName(decl, decl.getName()));
+    }
+
+    if (
+        Node.isPropertyDeclaration(decl) ||
         Node.isMethodDeclaration(decl) ||
         Node.isGetAccessorDeclaration(decl) ||
         Node.isSetAccessorDeclaration(decl)
     ) {
-        const cls = decl.getParent();
-        if (!Node.isClassDeclaration(cls) && !Node.isClassExpression(cls)) { return null; }
-        const className = cls.getName?.();
-        return className ? has(p(`${className}.${decl.getName()}`)) : null;
+        return p(classMemberName(decl, decl.getName()));
     }
     if (Node.isConstructorDeclaration(decl)) {
-        const cls = decl.getParent();
-        if (!Node.isClassDeclaration(cls) && !Node.isClassExpression(cls)) { return null; }
-        const className = cls.getName?.();
-        return className ? has(p(className)) : null;
+        return p(classMemberName(decl, 'constructor'));
+    }
+    if (Node.isPropertySignature(decl) || Node.isMethodSignature(decl)) {
+        const iface = decl.getParent();
+        if (!Node.isInterfaceDeclaration(iface)) { return null; }
+        return p(`${qualifyName(iface, iface.getName())}.${decl.getName()}`);
+    }
+    if (Node.isEnumMember(decl)) {
+        const enm = decl.getParent();
+        return p(`${qualifyName(enm, enm.getName())}.${decl.getName()}`);
+    }
+
+    // Barrel nodes collected by `resolveReferencedDeclarations`
+    if (Node.isExportSpecifier(decl)) {
+        return decl.getExportDeclaration().getModuleSpecifier() ? p(getExportSpecifierName(decl)) : null;
+    }
+    if (Node.isNamespaceExport(decl)) { return p(decl.getName()); }
+    if (Node.isExportDeclaration(decl)) {
+        const moduleSpecifier = decl.getModuleSpecifierValue();
+        return moduleSpecifier !== undefined ? p(starExportName(moduleSpecifier)) : null;
+    }
+    if (Node.isExportAssignment(decl)) { return p(DEFAULT_EXPORT_NAME); }
+
+    // CommonJS: the checker declares `exports.x = …` at its target and
+    // `require()` members at the `module.exports = { … }` literal's keys
+    if (Node.isPropertyAccessExpression(decl) || Node.isBinaryExpression(decl)) {
+        const cjs = getCommonJsExport(Node.isBinaryExpression(decl) ? decl : decl.getParent());
+        return cjs ? p(cjs.name) : null;
+    }
+    if (Node.isShorthandPropertyAssignment(decl)) {
+        const literal = decl.getParent();
+        return Node.isObjectLiteralExpression(literal) && isModuleExportsLiteral(literal) ? p(decl.getName()) : null;
+    }
+
+    // `constructor(private repo: Repo)` — `this.repo` resolves to the parameter
+    if (Node.isParameterDeclaration(decl) && decl.isParameterProperty()) {
+        const ctor = decl.getParent();
+        return Node.isConstructorDeclaration(ctor) ? p(classMemberName(ctor, decl.getName())) : null;
     }
 
     return null;
 }
 
+/**
+ * For the key of an object-literal member (`{ name: 'x' }`, `{ name }`,
+ * `{ run() {} }`), return the declarations of the same-named property on the
+ * literal's contextual type — e.g. the interface property it populates.  A
+ * JSX attribute (`<UserCard user={u} />`) populates the component's prop.
+ * Returns [] for every other kind of declaration name.
+ */
+function getPopulatedMemberDeclarations(nameNode: Node): Node[] {
+    const member  = nameNode.getParent();
+    const literal = member?.getParent();
+    if (Node.isJsxAttribute(member)) {
+        const element = literal?.getParent();
+        if (!Node.isJsxOpeningElement(element) && !Node.isJsxSelfClosingElement(element)) { return []; }
+        const props = element.getProject().getTypeChecker().getResolvedSignature(element)?.getParameters()[0];
+        return props?.getTypeAtLocation(element).getProperty(nameNode.getText())?.getDeclarations() ?? [];
+    }
+    if (!member || !Node.isObjectLiteralExpression(literal)) { return []; }
+    if (
+        !Node.isPropertyAssignment(member) &&
+        !Node.isShorthandPropertyAssignment(member) &&
+        !Node.isMethodDeclaration(member)
+    ) { return []; }
+    return literal.getContextualType()?.getProperty(member.getName())?.getDeclarations() ?? [];
+}
+
+/**
+ * For a shorthand destructured name (`const { user } = props`, a component's
+ * `({ user, onSelect }: Props)`), return the declarations of the property it
+ * reads — the name itself only declares the local.  `{ user: u }` needs no
+ * help: its `user` is an ordinary reference.
+ */
+function getDestructuredMemberDeclarations(nameNode: Node): Node[] {
+    const element = nameNode.getParent();
+    const pattern = element?.getParent();
+    if (!Node.isBindingElement(element) || element.getPropertyNameNode() || !Node.isObjectBindingPattern(pattern)) { return []; }
+    return pattern.getType().getProperty(nameNode.getText())?.getDeclarations() ?? [];
+}
+
+/**
+ * Resolve `new Foo(...)` or `super(...)` to the constructor it invokes.
+ * The checker picks the overload (or the inherited constructor when the
+ * class declares none); every overload maps to the one `Foo.constructor`.
+ */
+function resolveConstructorId(
+    call: NewExpression | CallExpression,
+    symbolIndex: SymbolIndex,
+    sourcePaths: SourcePathMapper,
+): string | null {
+    try {
+        const decl = call.getProject().getTypeChecker().getResolvedSignature(call)?.getDeclaration();
+        if (!decl || !Node.isConstructorDeclaration(decl)) { return null; }
+        const declFilePath = toIndexedPath(decl.getSourceFile().getFilePath(), symbolIndex, sourcePaths);
+        if (!declFilePath) { return null; }
+        return declarationToSymbolId(decl, declFilePath, symbolIndex);
+    } catch {
+        return null;
+    }
+}
+
 // ---------------------------------------------------------------------------
-// Workspace filter
+// Inheritance
 // ---------------------------------------------------------------------------
 
-function isWorkspaceFile(filePath: string, workspaceRootFsPath: string): boolean {
-    const normalizedRoot = workspaceRootFsPath.replace(/\\/g, '/');
-    return (
-        filePath.startsWith(normalizedRoot) &&
-        !filePath.includes('/node_modules/') &&
-        !filePath.includes('/.next/')          &&  // Next.js build output
-        !filePath.includes('/dist/')           &&  // generic build output
-        !filePath.includes('/out/')            &&  // Next.js static export
-        !/\/typescript\/lib\/lib\..+\.d\.ts$/.test(filePath)
+/**
+ * The types whose members a member of `container` overrides: the base class
+ * and implemented interfaces of a class, the extended interfaces of an
+ * interface.  Empty for anything else (object literals, type literals).
+ */
+function getBaseTypes(container: Node): Type[] {
+    if (Node.isClassDeclaration(container) || Node.isClassExpression(container)) {
+        return [...container.getBaseTypes(), ...container.getImplements().map(clause => clause.getType())];
+    }
+    if (Node.isInterfaceDeclaration(container)) { return container.getBaseTypes(); }
+    return [];
+}
+
+/**
+ * The declarations the class or interface member `member` overrides or
+ * implements — the same-named member of each base type.  The checker
+ * resolves inherited members, so an override links to the nearest
+ * declaration up the chain: the grandparent's when the parent does not
+ * redeclare it.  Static members override nothing.
+ */
+function getOverriddenDeclarations(member: Node): Node[] {
+    if (
+        !Node.isMethodDeclaration(member)      && !Node.isPropertyDeclaration(member) &&
+        !Node.isGetAccessorDeclaration(member) && !Node.isSetAccessorDeclaration(member) &&
+        !Node.isMethodSignature(member)        && !Node.isPropertySignature(member)
+    ) { return []; }
+    if (Node.isStaticable(member) && member.isStatic()) { return []; }
+    const name = member.getName();
+    return getBaseTypes(member.getParentOrThrow())
+        .flatMap(base => base.getProperty(name)?.getDeclarations() ?? []);
+}
+
+// ---------------------------------------------------------------------------
+// JSX render sites
+// ---------------------------------------------------------------------------
+
+/** Ids of the indexed components a JSX element's tag resolves to. */
+function resolveComponentIds(
+    element: JsxOpeningElement | JsxSelfClosingElement,
+    symbolIndex: SymbolIndex,
+    sourcePaths: SourcePathMapper,
+): string[] {
+    try {
+        const symbol = element.getTagNameNode().getSymbol();
+        if (!symbol) { return []; }
+        const ids: string[] = [];
+        for (const decl of resolveReferencedDeclarations(symbol)) {
+            const declFilePath = toIndexedPath(decl.getSourceFile().getFilePath(), symbolIndex, sourcePaths);
+            const id = declFilePath ? declarationToSymbolId(decl, declFilePath, symbolIndex) : null;
+            if (id && symbolIndex.get(id)?.kind === 'component') { ids.push(id); }
+        }
+        return ids;
+    } catch {
+        return [];
+    }
+}
+
+/** Attribute names set on a JSX element; `...` stands for any spread. */
+function getJsxPropNames(element: JsxOpeningElement | JsxSelfClosingElement): string[] {
+    return element.getAttributes().map(attr =>
+        Node.isJsxAttribute(attr) ? attr.getNameNode().getText() : '...'
     );
 }
 
+// ---------------------------------------------------------------------------
+// Alias resolution — imports, barrels and default exports
+// ---------------------------------------------------------------------------
+
+/**
+ * The module an import / re-export hop reads from and the name it reads,
+ * e.g. `import { a } from './x'` → (x.ts, 'a'), `import d from './x'` →
+ * (x.ts, 'default').  Undefined for namespace imports and local exports.
+ */
+function getImportHop(decl: Node): { from: SourceFile; name: string } | undefined {
+    if (Node.isImportSpecifier(decl)) {
+        const from = decl.getImportDeclaration().getModuleSpecifierSourceFile();
+        return from ? { from, name: decl.getName() } : undefined;
+    }
+    if (Node.isImportClause(decl)) {
+        const from = decl.getParentIfKind(SyntaxKind.ImportDeclaration)?.getModuleSpecifierSourceFile();
+        return from && decl.getDefaultImport() ? { from, name: 'default' } : undefined;
+    }
+    if (Node.isExportSpecifier(decl)) {
+        const from = decl.getExportDeclaration().getModuleSpecifierSourceFile();
+        return from ? { from, name: decl.getName() } : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * `export *` declarations crossed when `name` is read from `file` but is not
+ * one of its own exports — outermost first.  `export *` leaves no trace in
+ * the alias chain, so it is found by searching the star exports.
+ */
+function findStarExports(file: SourceFile, name: string, visited = new Set<SourceFile>()): ExportDeclaration[] {
+    if (visited.has(file)) { return []; }
+    visited.add(file);
+    for (const decl of file.getExportDeclarations()) {
+        if (decl.hasNamedExports() || decl.getNamespaceExport()) { continue; }
+        const target = decl.getModuleSpecifierSourceFile();
+        if (!target) { continue; }
+        if (target.getSymbol()?.getExport(name)) { return [decl]; }
+        const deeper = findStarExports(target, name, visited);
+        if (deeper.length > 0) { return [decl, ...deeper]; }
+    }
+    return [];
+}
+
+/**
+ * Expand a referenced symbol into every declaration the reference depends
+ * on.  An imported name is an alias; each hop of the alias chain is
+ * followed to the original declaration, collecting the barrel nodes passed
+ * on the way so consumers depend on both:
+ *
+ *   export { a as b } from './x'   → the ExportSpecifier
+ *   export * as ns from './x'      → the NamespaceExport
+ *   export * from './x'            → the ExportDeclaration (via findStarExports)
+ *   export default foo             → transparent, resolves to `foo`
+ *
+ * Import specifiers and local `export { a }` lists are not indexed and map
+ * to nothing in `declarationToSymbolId`.
+ */
+function resolveReferencedDeclarations(symbol: MorphSymbol): Node[] {
+    const declarations: Node[] = [];
+    const seen = new Set<MorphSymbol>();
+    let current: MorphSymbol | undefined = symbol;
+
+    while (current && current.isAlias() && !seen.has(current)) {
+        seen.add(current);
+        for (const decl of current.getDeclarations()) {
+            declarations.push(decl);
+            const hop = getImportHop(decl);
+            if (hop && !hop.from.getSymbol()?.getExport(hop.name)) {
+                declarations.push(...findStarExports(hop.from, hop.name));
+            }
+        }
+        current = current.getImmediatelyAliasedSymbol();
+    }
+    if (current) { declarations.push(...current.getDeclarations()); }
+    return declarations;
+}
+
+// ---------------------------------------------------------------------------
+// Edge kind classification
+// ---------------------------------------------------------------------------
+
+/**
+ * Classify how the referencing identifier `node` uses its target.
+ *
+ * The identifier is first widened to the expression it names — `b` in
+ * `a.b()` stands for the whole `a.b` — and that expression's position decides:
+ * callee of a call / decorator / tagged template → `call`, of `new` →
+ * `new`, the target of a heritage clause → `extends` / `implements`.
+ * Otherwise any enclosing type node makes it a `type` reference.
+ * `ExpressionWithTypeArguments` is itself a type node but wraps a value
+ * expression (`extends mixin(Base)`), so the search stops there.
+ */
+function classifyReference(node: Node): EdgeKind {
+    let expr: Node = node;
+    let parent = node.getParent();
+    while (
+        parent && (
+            (Node.isPropertyAccessExpression(parent) && parent.getNameNode() === expr) ||
+            (Node.isQualifiedName(parent) && parent.getRight() === expr)
+        )
+    ) {
+        expr   = parent;
+        parent = parent.getParent();
+    }
+
+    if (Node.isCallExpression(parent) && parent.getExpression() === expr) { return 'call'; }
+    if (Node.isDecorator(parent))                                         { return 'call'; }
+    if (Node.isTaggedTemplateExpression(parent) && parent.getTag() === expr) { return 'call'; }
+    if (Node.isNewExpression(parent) && parent.getExpression() === expr)  { return 'new'; }
+    if (
+        (Node.isJsxOpeningElement(parent) || Node.isJsxSelfClosingElement(parent) || Node.isJsxClosingElement(parent)) &&
+        parent.getTagNameNode() === expr
+    ) { return 'render'; }
+    if (Node.isExpressionWithTypeArguments(parent) && parent.getExpression() === expr) {
+        const clause = parent.getParent();
+        if (Node.isHeritageClause(clause)) {
+            return clause.getToken() === SyntaxKind.ImplementsKeyword ? 'implements' : 'extends';
+        }
+    }
+
+    for (let ancestor = node.getParent(); ancestor; ancestor = ancestor.getParent()) {
+        if (Node.isExpressionWithTypeArguments(ancestor)) { break; }
+        if (Node.isTypeNode(ancestor)) { return 'type'; }
+    }
+    return 'reference';
+}
+
+// ---------------------------------------------------------------------------
+// Workspace filter
+// ---------------------------------------------------------------------------
+
+/**
+ * The source file a module specifier loads.  The type checker resolves
+ * specifiers of modules; scripts (files without imports or exports) and
+ * `require` in TS files go through the project's module resolution, as a
+ * static import from the same file would.
+ */
+function resolveModuleSpecifier(specifier: StringLiteral | NoSubstitutionTemplateLiteral): SourceFile | undefined {
+    const resolved = specifier.getSymbol()?.getDeclarations().find(Node.isSourceFile);
+    if (resolved) { return resolved; }
+
+    const project = specifier.getProject();
+    const module  = ts.resolveModuleName(
+        specifier.getLiteralValue(),
+        specifier.getSourceFile().getFilePath(),
+        project.getCompilerOptions(),
+        project.getModuleResolutionHost(),
+    ).resolvedModule;
+    return module ? project.getSourceFile(module.resolvedFileName) : undefined;
+}
+
+/**
+ * The source file loaded by `import('./x')` or `require('./x')`, for string
+ * literal specifiers only.
+ */
+function getDynamicImportTarget(call: CallExpression): SourceFile | undefined {
+    const callee    = call.getExpression();
+    const isImport  = callee.getKind() === SyntaxKind.ImportKeyword;
+    const isRequire = Node.isIdentifier(callee) && callee.getText() === 'require';
+    if (!isImport && !isRequire) { return undefined; }
+
+    const [specifier] = call.getArguments();
+    if (!Node.isStringLiteral(specifier) && !Node.isNoSubstitutionTemplateLiteral(specifier)) { return undefined; }
+    return resolveModuleSpecifier(specifier);
+}
+
+/**
+ * Add an `import` edge from `ownerId` to the module symbol of `target` — the
+ * owner runs that module's top-level code by loading it.
+ */
+function addModuleEdge(
+    ownerId: string,
+    target: SourceFile,
+    symbolIndex: SymbolIndex,
+    sourcePaths: SourcePathMapper,
+    graph: DependencyGraph,
+): void {
+    const targetPath = toIndexedPath(target.getFilePath(), symbolIndex, sourcePaths);
+    const moduleId   = targetPath ? moduleSymbolId(targetPath) : null;
+    if (moduleId && symbolIndex.has(moduleId) && moduleId !== ownerId) {
+        addEdge(graph, ownerId, moduleId, 'import');
+    }
+}
+
+/**
+ * True when `filePath` was indexed.  Every indexed file has a module symbol,
+ * so this follows the index filter of whichever workspace folder the file
+ * belongs to — referenced declarations may live in another folder.
+ */
+function isIndexedPath(filePath: string, symbolIndex: SymbolIndex): boolean {
+    return symbolIndex.has(moduleSymbolId(filePath));
+}
+
+/**
+ * The path a referenced declaration's symbols are indexed under: its own
+ * path for indexed workspace files, the local source for a workspace package
+ * reached through `node_modules` or its build output (see `sourceMapper`),
+ * null for anything else.
+ */
+function toIndexedPath(declFilePath: string, symbolIndex: SymbolIndex, sourcePaths: SourcePathMapper): string | null {
+    if (isIndexedPath(declFilePath, symbolIndex)) { return declFilePath; }
+    if (/\/typescript\/lib\/lib\..+\.d\.ts$/.test(declFilePath)) { return null; }
+    const mapped = sourcePaths(declFilePath);
+    return mapped && isIndexedPath(mapped, symbolIndex) ? mapped : null;
+}
+
 // ---------------------------------------------------------------------------
 // Recursive AST walk
 // ---------------------------------------------------------------------------
 
-function addEdge(graph: DependencyGraph, fromId: string, toId: string): void {
+function addEdge(graph: DependencyGraph, fromId: string, toId: string, kind: EdgeKind): void {
     // Forward: fromId depends on toId
     if (!graph.forward.has(fromId)) { graph.forward.set(fromId, new Set()); }
     graph.forward.get(fromId)!.add(toId);
@@ -161,6 +764,33 @@ function addEdge(graph: DependencyGraph, fromId: string, toId: string): void {
     // Reverse: toId is depended on by fromId
     if (!graph.reverse.has(toId)) { graph.reverse.set(toId, new Set()); }
     graph.reverse.get(toId)!.add(fromId);
+
+    addEdgeKind(graph, fromId, toId, kind);
+}
+
+/**
+ * Add an edge of `kind` from `ownerId` to every indexed workspace declaration
+ * in `declarations`.  Every declaration of one reference shares its kind:
+ * calling an imported function through a barrel also calls the barrel entry.
+ */
+function addReferenceEdges(
+    ownerId: string,
+    declarations: Node[],
+    kind: EdgeKind,
+    symbolIndex: SymbolIndex,
+    sourcePaths: SourcePathMapper,
+    graph: DependencyGraph
+): void {
+    for (const decl of declarations) {
+        // Filter: only workspace symbols (any workspace folder)
+        const declFilePath = toIndexedPath(decl.getSourceFile().getFilePath(), symbolIndex, sourcePaths);
+        if (!declFilePath) { continue; }
+
+        const referencedId = declarationToSymbolId(decl, declFilePath, symbolIndex);
+        if (referencedId && referencedId !== ownerId) {
+            addEdge(graph, ownerId, referencedId, kind);
+        }
+    }
 }
 
 function walkNode(
@@ -169,6 +799,7 @@ function walkNode(
     filePath: string,
     symbolIndex: SymbolIndex,
     workspaceRootFsPath: string,
+    sourcePaths: SourcePathMapper,
     graph: DependencyGraph
 ): void {
     // --- Step 3: maintain owner stack ---
@@ -183,6 +814,46 @@ function walkNode(
         }
     }
 
+    // A barrel re-export depends on what it re-exports.  The identifiers in
+    // a specifier are names rather than references, so it is resolved as a
+    // whole and its children are not walked.
+    if (Node.isExportSpecifier(node)) {
+        if (pushedId !== null) {
+            try {
+                const target = node.getLocalTargetSymbol();
+                if (target) {
+                    addReferenceEdges(pushedId, resolveReferencedDeclarations(target), 'reexport', symbolIndex, sourcePaths, graph);
+                }
+            } catch {
+                // Unresolvable module specifier — nothing to record
+            }
+            ownerStack.pop();
+        }
+        return;
+    }
+
+    // Import bindings are names rather than uses; the code that uses them
+    // records the edge.  A side-effect import (`import './polyfills'`) runs
+    // the target module, so the importer depends on its module symbol.
+    if (Node.isImportDeclaration(node)) {
+        if (ownerStack.length > 0 && !node.getImportClause()) {
+            try {
+                const target = resolveModuleSpecifier(node.getModuleSpecifier());
+                if (target) { addModuleEdge(ownerStack[ownerStack.length - 1], target, symbolIndex, sourcePaths, graph); }
+            } catch {
+                // Unresolvable module specifier — nothing to record
+            }
+        }
+        if (pushedId !== null) { ownerStack.pop(); }
+        return;
+    }
+
+    // Module-level interfaces and type aliases are not module code: what they
+    // reference is part of the type, not something the file runs.
+    const isModuleTypeDeclaration =
+        (Node.isInterfaceDeclaration(node) || Node.isTypeAliasDeclaration(node)) &&
+        ownerStack[ownerStack.length - 1] === moduleSymbolId(filePath);
+
     // --- Step 4: record references ---
     if (Node.isIdentifier(node) && ownerStack.length > 0) {
         const currentOwner = ownerStack[ownerStack.length - 1];
@@ -194,39 +865,99 @@ function walkNode(
         // IMPORTANT: PropertyAccessExpression also has getNameNode() (it returns
         // the right-side property identifier).  We must NOT treat that case as a
         // declaration name — `obj.coerceD3` is a reference to coerceD3, not its
-        // own definition.  Exclude PropertyAccessExpression explicitly.
+        // own definition.  Exclude PropertyAccessExpression explicitly.  The
+        // same goes for Decorator, whose getNameNode() is the `@dec` callee.
         const parent = node.getParent();
         const isDeclarationName =
-            parent !== undefined &&
-            !Node.isPropertyAccessExpression(parent) &&
-            typeof (parent as any).getNameNode === 'function' &&
-            (parent as any).getNameNode() === node;
+            (
+                parent !== undefined &&
+                !Node.isPropertyAccessExpression(parent) &&
+                !Node.isDecorator(parent) &&
+                typeof (parent as any).getNameNode === 'function' &&
+                (parent as any).getNameNode() === node
+            ) ||
+            // ...but `exports.x = …` does declare `x`
+            isInCommonJsExportTarget(node);
+
+        // Object-literal keys and JSX attributes are declaration names too, but
+        // they also write to the member of the type they are checked against;
+        // destructured names read the member they are bound from.
+        try {
+            const symbol = isDeclarationName ? undefined : node.getSymbol();
+            const declarations = isDeclarationName
+                ? [...getPopulatedMemberDeclarations(node), ...getDestructuredMemberDeclarations(node)]
+                : symbol ? resolveReferencedDeclarations(symbol) : [];
+            if (declarations.length > 0) {
+                const kind = isDeclarationName ? 'reference' : classifyReference(node);
+                addReferenceEdges(currentOwner, declarations, kind, symbolIndex, sourcePaths, graph);
+            }
+        } catch {
+            // Type checker can throw on malformed/ambient nodes — skip safely
+        }
+    }
 
-        if (!isDeclarationName) {
-            try {
-                const symbol = node.getSymbol();
-                if (symbol) {
-                    for (const decl of symbol.getDeclarations()) {
-                        const declFilePath = decl.getSourceFile().getFilePath();
-
-                        // Filter: only workspace symbols
-                        if (!isWorkspaceFile(declFilePath, workspaceRootFsPath)) { continue; }
-
-                        const referencedId = declarationToSymbolId(decl, declFilePath, symbolIndex);
-                        if (referencedId && referencedId !== currentOwner) {
-                            addEdge(graph, currentOwner, referencedId);
-                        }
-                    }
-                }
-            } catch {
-                // Type checker can throw on malformed/ambient nodes — skip safely
+    // Construction sites depend on the constructor they call, in addition to
+    // the class identifier recorded above.  `super(...)` runs the base
+    // constructor rather than instantiating it, so it counts as a call.
+    if (
+        ownerStack.length > 0 &&
+        (Node.isNewExpression(node) || (Node.isCallExpression(node) && Node.isSuperExpression(node.getExpression())))
+    ) {
+        const currentOwner = ownerStack[ownerStack.length - 1];
+        const ctorId = resolveConstructorId(node, symbolIndex, sourcePaths);
+        if (ctorId && ctorId !== currentOwner) {
+            addEdge(graph, currentOwner, ctorId, Node.isNewExpression(node) ? 'new' : 'call');
+        }
+    }
+
+    // A member depends on the base-type members it overrides, so a change to
+    // `Repository.save` reaches every `save` that implements it.  Classes
+    // record their heritage clauses as references of the class; a
+    // module-level interface owns nothing, so its `extends` is added here.
+    try {
+        const overridden = getOverriddenDeclarations(node);
+        const memberId   = overridden.length > 0 ? declarationToSymbolId(node, filePath, symbolIndex) : null;
+        if (memberId) { addReferenceEdges(memberId, overridden, 'override', symbolIndex, sourcePaths, graph); }
+
+        if (Node.isInterfaceDeclaration(node)) {
+            const interfaceId = declarationToSymbolId(node, filePath, symbolIndex);
+            if (interfaceId) {
+                addReferenceEdges(interfaceId, node.getBaseDeclarations(), 'extends', symbolIndex, sourcePaths, graph);
+            }
+        }
+    } catch {
+        // Unresolvable base type — nothing to record
+    }
+
+    // A rendered component also records which props the owner passes it, so
+    // a props change can name the attributes each render site sets.
+    if (ownerStack.length > 0 && (Node.isJsxOpeningElement(node) || Node.isJsxSelfClosingElement(node))) {
+        const currentOwner = ownerStack[ownerStack.length - 1];
+        for (const componentId of resolveComponentIds(node, symbolIndex, sourcePaths)) {
+            if (componentId !== currentOwner) {
+                addRenderProps(graph, currentOwner, componentId, getJsxPropNames(node));
+            }
+        }
+    }
+
+    // A dynamic `import()` / `require()` loads the whole module at runtime:
+    // the owner depends on everything it exports and on its top-level code.
+    if (ownerStack.length > 0 && Node.isCallExpression(node)) {
+        try {
+            const target = getDynamicImportTarget(node);
+            if (target) {
+                const exported = [...target.getExportedDeclarations().values()].flat();
+                addReferenceEdges(ownerStack[ownerStack.length - 1], exported, 'import', symbolIndex, sourcePaths, graph);
+                addModuleEdge(ownerStack[ownerStack.length - 1], target, symbolIndex, sourcePaths, graph);
             }
+        } catch {
+            // Unresolvable specifier — nothing to record
         }
     }
 
     // Recurse into children (preserves pre-order, enter-before-leave semantics)
     for (const child of node.getChildren()) {
-        walkNode(child, ownerStack, filePath, symbolIndex, workspaceRootFsPath, graph);
+        walkNode(child, isModuleTypeDeclaration ? [] : ownerStack, filePath, symbolIndex, workspaceRootFsPath, sourcePaths, graph);
     }
 
     // --- pop owner on the way out ---
@@ -244,12 +975,13 @@ export function buildReferenceGraph(
     symbolIndex: SymbolIndex,
     workspaceRootFsPath: string
 ): DependencyGraph {
-    const graph: DependencyGraph = { forward: new Map(), reverse: new Map() };
+    const graph: DependencyGraph = { forward: new Map(), reverse: new Map(), edgeKinds: new Map(), renderProps: new Map() };
+    const sourcePaths = createSourcePathMapper(project);
 
     for (const sourceFile of project.getSourceFiles()) {
         const filePath = sourceFile.getFilePath();
-        if (!isWorkspaceFile(filePath, workspaceRootFsPath)) { continue; }
-        walkNode(sourceFile, [], filePath, symbolIndex, workspaceRootFsPath, graph);
+        if (!isIndexableFile(filePath, workspaceRootFsPath)) { continue; }
+        walkNode(sourceFile, [], filePath, symbolIndex, workspaceRootFsPath, sourcePaths, graph);
     }
 
     let edgeCount = 0;
@@ -278,6 +1010,7 @@ export function walkSourceFile(
     graph: DependencyGraph
 ): void {
     const filePath = sourceFile.getFilePath();
-    if (!isWorkspaceFile(filePath, workspaceRootFsPath)) { return; }
-    walkNode(sourceFile, [], filePath, symbolIndex, workspaceRootFsPath, graph);
+    if (!isIndexableFile(filePath, workspaceRootFsPath)) { return; }
+    const sourcePaths = createSourcePathMapper(sourceFile.getProject());
+    walkNode(sourceFile, [], filePath, symbolIndex, workspaceRootFsPath, sourcePaths, graph);
 }
@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Project, ts } from 'ts-morph';
+
+/**
+ * Maps a declaration's file to the workspace source file it stands for, or
+ * null when there is none.
+ */
+export type SourcePathMapper = (filePath: string) => string | null;
+
+const DECLARATION_FILE = /\.d\.[cm]?ts$/;
+// TypeScript first: a package may ship its built `.js` next to the source
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+function toPosix(p: string): string {
+    return p.replace(/\\/g, '/');
+}
+
+/** A source file on disk that is not a declaration file or a dependency. */
+function isLocalSource(filePath: string): boolean {
+    return (
+        !DECLARATION_FILE.test(filePath) &&
+        SOURCE_EXTENSIONS.includes(path.extname(filePath)) &&
+        !filePath.includes('/node_modules/') &&
+        fs.existsSync(filePath)
+    );
+}
+
+function readJson(filePath: string): Record<string, any> | null {
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch {
+        return null;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Mapping steps
+// ---------------------------------------------------------------------------
+
+/** `node_modules/@acme/ui/src/x.ts` → `packages/ui/src/x.ts` through the workspace symlink. */
+function realPath(filePath: string): string {
+    try {
+        return toPosix(fs.realpathSync(filePath));
+    } catch {
+        return filePath;
+    }
+}
+
+/**
+ * The source a `.d.ts` was emitted from, read from the declaration map
+ * (`x.d.ts.map`, written with `declarationMap: true`) next to it.
+ */
+function fromDeclarationMap(declFile: string): string | null {
+    if (!DECLARATION_FILE.test(declFile)) { return null; }
+    const map = readJson(`${declFile}.map`);
+    const source = Array.isArray(map?.sources) ? map.sources[0] : undefined;
+    if (typeof source !== 'string') { return null; }
+    const sourceRoot = typeof map?.sourceRoot === 'string' ? map.sourceRoot : '';
+    return toPosix(path.resolve(path.dirname(declFile), sourceRoot, source));
+}
+
+/** Directory and parsed `package.json` of the package `filePath` belongs to. */
+function findPackage(filePath: string): { dir: string; json: Record<string, any> } | null {
+    for (let dir = path.dirname(filePath); dir !== path.dirname(dir); dir = path.dirname(dir)) {
+        const json = readJson(path.join(dir, 'package.json'));
+        if (json) { return { dir, json }; }
+    }
+    return null;
+}
+
+/**
+ * The source a built `.d.ts` corresponds to, found by resolving the
+ * package's name with the project's compiler options — so `paths` such as
+ * `"@acme/*": ["packages/*\/src"]` apply — and mirroring the file's position
+ * under the package's declaration entry onto the resolved source entry:
+ * `dist/util/a.d.ts` under `dist/index.d.ts` becomes `src/util/a.ts` under
+ * `src/index.ts`.
+ */
+function fromPathsMapping(declFile: string, project: Project): string | null {
+    if (!DECLARATION_FILE.test(declFile)) { return null; }
+    const pkg = findPackage(declFile);
+    if (!pkg || typeof pkg.json.name !== 'string') { return null; }
+
+    const entry = ts.resolveModuleName(
+        pkg.json.name,
+        declFile,
+        project.getCompilerOptions(),
+        project.getModuleResolutionHost(),
+    ).resolvedModule?.resolvedFileName;
+    if (!entry || !isLocalSource(toPosix(entry))) { return null; }
+
+    const types    = pkg.json.types ?? pkg.json.typings;
+    const typesDir = typeof types === 'string' ? path.dirname(path.join(pkg.dir, types)) : pkg.dir;
+    const relative = path.relative(typesDir, declFile).replace(DECLARATION_FILE, '');
+    if (relative.startsWith('..')) { return null; }
+
+    const base = path.join(path.dirname(entry), relative);
+    for (const ext of SOURCE_EXTENSIONS) {
+        const candidate = toPosix(base + ext);
+        if (isLocalSource(candidate)) { return candidate; }
+    }
+    return null;
+}
+
+// ---------------------------------------------------------------------------
+// Public entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a mapper for declarations that resolve outside the workspace
+ * sources — into a `node_modules` symlink of a workspace package, or into
+ * its built `.d.ts` files — back to the local source.  Tried in order:
+ *
+ *   1. the symlink's real path, when that is already a source file;
+ *   2. the `.d.ts` file's declaration map;
+ *   3. the package name resolved through tsconfig `paths`.
+ *
+ * Results are cached per file, so one mapper should not outlive the walk
+ * it was created for.
+ */
+export function createSourcePathMapper(project: Project): SourcePathMapper {
+    const cache = new Map<string, string | null>();
+
+    return filePath => {
+        const cached = cache.get(filePath);
+        if (cached !== undefined) { return cached; }
+
+        const real = realPath(filePath);
+        let mapped: string | null = isLocalSource(real) ? real : null;
+        if (!mapped) {
+            const fromMap = fromDeclarationMap(real);
+            mapped = fromMap && isLocalSource(fromMap) ? fromMap : null;
+        }
+        if (!mapped) {
+            try {
+                mapped = fromPathsMapping(real, project);
+            } catch {
+                mapped = null;
+            }
+        }
+
+        cache.set(filePath, mapped);
+        return mapped;
+    };
+}
@@ -1,26 +1,53 @@
 import { createHash } from 'crypto';
 import {
+    Node,
     SourceFile,
     FunctionDeclaration,
     MethodDeclaration,
+    ArrowFunction,
+    FunctionExpression,
     ClassDeclaration,
     InterfaceDeclaration,
     TypeAliasDeclaration,
     VariableDeclaration,
     EnumDeclaration,
     PropertyDeclaration,
+    ParameterDeclaration,
+    ConstructorDeclaration,
+    GetAccessorDeclaration,
+    SetAccessorDeclaration,
     ModuleDeclaration,
+    PropertySignature,
+    MethodSignature,
+    EnumMember,
+    ExportAssignment,
+    ExportSpecifier,
+    ObjectLiteralExpression,
+    ObjectLiteralElementLike,
+    PropertyAssignment,
+    Expression,
+    Type,
+    TypeNode,
+    SyntaxKind,
+    ts,
 } from 'ts-morph';
 
 export type SymbolKind =
     | 'function'
+    | 'component'      // a React function component — see `isComponent`
     | 'class'
     | 'interface'
     | 'type'
     | 'variable'
     | 'enum'
     | 'method'
-    | 'property';
+    | 'property'
+    | 'constructor'    // `Foo.constructor` — parameter list of `new Foo(...)`
+    | 'accessor'       // `Foo.x` — a get/set pair, indexed as one symbol
+    | 'static-block'   // `Foo.static[0]` — `static { … }` initialiser, by position
+    | 'enum-member'    // `Color.Red`
+    | 'reexport'       // a barrel's `export … from './x'` entry
+    | 'module';        // `<module>` — the file itself, owner of its top-level statements
 
 export interface SymbolEntry {
     id: string;         // `${filePath}#${name}`
@@ -33,9 +60,14 @@ export interface SymbolEntry {
     endPos: number;     // absolute character offset (Node.getEnd()) from start of file
     isExported: boolean;
     parentId: string | null;  // id of the containing class, null for top-level symbols
-    signatureHash: string;    // sha256 of the symbol's public API surface
+    signature: string;        // canonical text of the public API surface, e.g. `<>(a:number):string`
+    signatureHash: string;    // sha256 of `signature`
+    bodyHash: string;         // sha256 of the declaration text, name-independent (see `hashBody`)
 }
 
+/** An entry before `extractSymbols` fills in its `bodyHash`. */
+type ExtractedEntry = Omit<SymbolEntry, 'bodyHash'>;
+
 function makeId(filePath: string, name: string): string {
     return `${filePath}#${name}`;
 }
@@ -48,6 +80,29 @@ function hashText(text: string): string {
     return createHash('sha256').update(text).digest('hex').slice(0, 16);
 }
 
+/**
+ * Fingerprint of a declaration's full text, used to recognise a symbol that
+ * was moved to another file or renamed.  Whitespace is collapsed, `export` /
+ * `default` are dropped (moving a symbol often changes them) and the
+ * symbol's own name is blanked out, so the same code under a new name or in
+ * a new file hashes identically.
+ */
+function hashBody(fileText: string, entry: ExtractedEntry): string {
+    const localName = entry.name.slice(entry.name.lastIndexOf('.') + 1);
+    const escaped   = localName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const text      = fileText.slice(entry.startPos, entry.endPos)
+        .replace(new RegExp(`\\b${escaped}\\b`, 'g'), '')
+        .replace(/\b(export|default)\s+/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return hashText(text);
+}
+
+/** The canonical signature text and its hash, kept together for diffing. */
+function signed(signature: string): Pick<SymbolEntry, 'signature' | 'signatureHash'> {
+    return { signature, signatureHash: hashText(signature) };
+}
+
 /**
  * Normalise a TypeScript type string so that semantically identical types
  * always produce the same string regardless of:
@@ -63,7 +118,8 @@ function splitTopLevel(text: string, sep: string): string[] {
     while (i < text.length) {
         const ch = text[i];
         if (ch === '<' || ch === '{' || ch === '(' || ch === '[') { depth++; i++; continue; }
-        if (ch === '>' || ch === '}' || ch === ')' || ch === ']') { depth--; i++; continue; }
+        // The `>` of an arrow (`=>`) closes nothing
+        if ((ch === '>' && text[i - 1] !== '=') || ch === '}' || ch === ')' || ch === ']') { depth--; i++; continue; }
         if (depth === 0 && text.startsWith(sep, i)) {
             parts.push(text.slice(start, i));
             i += sep.length;
@@ -98,19 +154,195 @@ function canonicalizeType(raw: string): string {
     return s;
 }
 
-function signCallable(node: FunctionDeclaration | MethodDeclaration): string {
-    try {
-        const params = node.getParameters().map(p => {
-            const typeText = p.getTypeNode()?.getText() ?? p.getType().getText();
-            return `${p.getName()}:${canonicalizeType(typeText)}`;
+type CallableNode = FunctionDeclaration | MethodDeclaration | ArrowFunction | FunctionExpression;
+/** A single call signature: a callable, or an interface's method signature. */
+type SignatureNode = CallableNode | MethodSignature;
+type OverloadableNode = FunctionDeclaration | MethodDeclaration | ConstructorDeclaration;
+
+/**
+ * The declarations that make up a callable's public signature: the overload
+ * list when there is one — the implementation signature is not callable from
+ * outside — otherwise the node itself.  Overload order is kept because it
+ * decides which overload a call resolves to.
+ */
+function overloadSet<T extends OverloadableNode>(node: T): T[] {
+    const overloads = node.getOverloads() as T[];
+    return overloads.length > 0 ? overloads : [node];
+}
+
+/**
+ * Whether `node` is the declaration an overload set is indexed under: the
+ * implementation, or the last signature of an ambient (`declare`) set, which
+ * has no implementation.
+ */
+function isOverloadSetOwner(node: OverloadableNode): boolean {
+    if (!node.isOverload()) { return true; }
+    if (node.getImplementation()) { return false; }
+    const overloads = node.getOverloads();
+    return overloads[overloads.length - 1] === node;
+}
+
+/** True for nodes in `.js` / `.jsx` files, whose types are written in JSDoc. */
+function isJavaScript(node: Node): boolean {
+    return (node.compilerNode.flags & ts.NodeFlags.JavaScriptFile) !== 0;
+}
+
+/**
+ * The type text a declaration is signed with: its annotation, else in
+ * JavaScript the JSDoc `@type` / `@param` / `@returns` type, else the
+ * inferred type.  JavaScript has no annotations to fall back on, so inferred
+ * types there are printed relative to `node` — `User` rather than
+ * `import("/abs/path/users").User`.
+ */
+function typeText(node: Node, typeNode: TypeNode | undefined, jsDocType: ts.TypeNode | undefined, inferred: () => Type): string {
+    if (typeNode) { return typeNode.getText(); }
+    if (!isJavaScript(node)) { return inferred().getText(); }
+    return jsDocType?.getText() ?? inferred().getText(node);
+}
+
+/** `<T extends Foo = Bar>` — names, constraints and defaults, in order. */
+function signTypeParameters(node: SignatureNode | ConstructorDeclaration): string {
+    if (isJavaScript(node)) {
+        // `@template {Foo} T` — JSDoc type parameters have no defaults
+        return ts.getEffectiveTypeParameterDeclarations(node.compilerNode).map(t => {
+            // The tag's constraint is the whole `{Foo}` expression, braces included
+            const tagged     = ts.getEffectiveConstraintOfTypeParameter(t);
+            const constraint = tagged && ts.isJSDocTypeExpression(tagged) ? tagged.type : tagged;
+            return t.name.text + (constraint ? ` extends ${canonicalizeType(constraint.getText())}` : '');
         }).join(',');
-        const ret = node.getReturnTypeNode()?.getText() ?? node.getReturnType().getText();
-        return `(${params}):${canonicalizeType(ret)}`;
+    }
+    return node.getTypeParameters().map(t => {
+        const constraint = t.getConstraint();
+        const dflt       = t.getDefault();
+        return `${t.isConst() ? 'const ' : ''}${t.getName()}` +
+            (constraint ? ` extends ${canonicalizeType(constraint.getText())}` : '') +
+            (dflt       ? ` = ${canonicalizeType(dflt.getText())}` : '');
+    }).join(',');
+}
+
+/** `@param {T} [opt]` or `@param {T=} opt` — JSDoc's spelling of `opt?: T`. */
+function isJsDocOptional(param: ParameterDeclaration): boolean {
+    return ts.getJSDocParameterTags(param.compilerNode).some(tag =>
+        tag.isBracketed || tag.typeExpression?.type.kind === SyntaxKind.JSDocOptionalType
+    );
+}
+
+/** `...rest:T[]` and `opt?:T` markers are part of how a callable may be called. */
+function signParameters(params: ParameterDeclaration[]): string {
+    return params.map(p => {
+        const paramType = typeText(p, p.getTypeNode(), ts.getJSDocType(p.compilerNode), () => p.getType());
+        const optional  = p.hasQuestionToken() || p.hasInitializer() || isJsDocOptional(p) ? '?' : '';
+        return `${p.isRestParameter() ? '...' : ''}${p.getName()}${optional}:${canonicalizeType(paramType)}`;
+    }).join(',');
+}
+
+function signCallSignature(node: SignatureNode): string {
+    const ret = typeText(node, node.getReturnTypeNode(), ts.getJSDocReturnType(node.compilerNode), () => node.getReturnType());
+    return `<${signTypeParameters(node)}>(${signParameters(node.getParameters())}):${canonicalizeType(ret)}`;
+}
+
+/** Every overload is signed, so adding, removing or reordering one ripples. */
+function signCallable(node: CallableNode): string {
+    try {
+        const signatures = Node.isFunctionDeclaration(node) || Node.isMethodDeclaration(node)
+            ? overloadSet<FunctionDeclaration | MethodDeclaration>(node)
+            : [node];
+        return signatures.map(signCallSignature).join(';');
+    } catch { return ''; }
+}
+
+/**
+ * A component is called by React with one props object, so its API is the
+ * shape of that object.  The props type is expanded member by member —
+ * `<>(props:{ onSelect?: (id: string) => void; user: User }):Element` — so
+ * editing the props interface changes every component that takes it.  Props
+ * declared outside the workspace (inherited DOM attributes and the like) are
+ * left out; they would bury the component's own props.
+ */
+function signComponent(fn: CallableNode): string {
+    try {
+        const props = fn.getParameters()[0];
+        if (!props) { return signCallable(fn); }
+        const members = props.getType().getProperties()
+            .filter(prop => prop.getDeclarations().every(d => !d.getSourceFile().isInNodeModules()))
+            .map(prop => {
+                // The declared type, so an optional prop does not gain `| undefined`
+                const decl     = prop.getValueDeclaration();
+                const typeNode = Node.isPropertySignature(decl) ? decl.getTypeNode() : undefined;
+                const propType = typeNode?.getText() ?? prop.getTypeAtLocation(props).getText(props);
+                return `${prop.getName()}${prop.isOptional() ? '?' : ''}: ${canonicalizeType(propType)}`;
+            });
+        const optional = props.hasQuestionToken() || props.hasInitializer() || isJsDocOptional(props) ? '?' : '';
+        const ret = typeText(fn, fn.getReturnTypeNode(), ts.getJSDocReturnType(fn.compilerNode), () => fn.getReturnType());
+        return `<${signTypeParameters(fn)}>(props${optional}:${canonicalizeType(`{ ${members.join('; ')} }`)}):${canonicalizeType(ret)}`;
     } catch { return ''; }
 }
 
+/**
+ * Whether a module-level function is a React function component: declared
+ * in a `.tsx` / `.jsx` file, named in PascalCase and rendering JSX.
+ */
+function isComponent(name: string, fn: CallableNode): boolean {
+    return (
+        /^[A-Z]/.test(name) &&
+        /\.[jt]sx$/.test(fn.getSourceFile().getFilePath()) &&
+        fn.getFirstDescendant(n => Node.isJsxElement(n) || Node.isJsxSelfClosingElement(n) || Node.isJsxFragment(n)) !== undefined
+    );
+}
+
+/**
+ * A symbol for an overload set spans every signature, from the first
+ * overload to `node` — editing any of them touches the symbol.
+ */
+function overloadSetRange(node: OverloadableNode): Pick<SymbolEntry, 'startLine' | 'endLine' | 'startPos' | 'endPos'> {
+    const first = overloadSet(node)[0];
+    const start = first.getStart() < node.getStart() ? first : node;
+    return {
+        startLine: start.getStartLineNumber(),
+        endLine:   node.getEndLineNumber(),
+        startPos:  start.getStart(),
+        endPos:    node.getEnd(),
+    };
+}
+
 function signProperty(node: PropertyDeclaration): string {
-    try { return canonicalizeType(node.getTypeNode()?.getText() ?? node.getType().getText()); } catch { return ''; }
+    try {
+        return canonicalizeType(typeText(node, node.getTypeNode(), ts.getJSDocType(node.compilerNode), () => node.getType()));
+    } catch { return ''; }
+}
+
+/**
+ * Parameter properties (`constructor(private repo: Repo)`) are class members;
+ * visibility and `readonly` are part of their API along with the type.
+ */
+function signParameterProperty(node: ParameterDeclaration): string {
+    try {
+        const modifiers = node.getModifiers().map(m => m.getText()).join(' ');
+        const declared  = node.getTypeNode()?.getText() ?? node.getType().getText();
+        return `${modifiers}:${canonicalizeType(declared)}`;
+    } catch { return ''; }
+}
+
+function signConstructor(node: ConstructorDeclaration): string {
+    try {
+        return overloadSet(node)
+            .map(c => `${c.getScope()} new(${signParameters(c.getParameters())})`)
+            .join(';');
+    } catch { return ''; }
+}
+
+/** A getter and setter with the same name form one property-like API. */
+function signAccessor(getter: GetAccessorDeclaration | undefined, setter: SetAccessorDeclaration | undefined): string {
+    try {
+        const get = getter
+            ? canonicalizeType(typeText(getter, getter.getReturnTypeNode(), ts.getJSDocReturnType(getter.compilerNode), () => getter.getReturnType()))
+            : '';
+        const setParam = setter?.getParameters()[0];
+        const set = setParam
+            ? canonicalizeType(typeText(setParam, setParam.getTypeNode(), ts.getJSDocType(setParam.compilerNode), () => setParam.getType()))
+            : '';
+        return `get:${getter ? get : '-'};set:${setter ? set : '-'}`;
+    } catch { return ''; }
 }
 
 function signClass(node: ClassDeclaration): string {
@@ -121,120 +353,286 @@ function signClass(node: ClassDeclaration): string {
     } catch { return 'class'; }
 }
 
+/**
+ * The interface's own shell: type parameters, `extends` list, and unnamed
+ * members (call, construct and index signatures).  Named properties and
+ * methods are indexed as child symbols with their own hashes, so adding or
+ * changing one field does not ripple into every user of the interface.
+ */
 function signInterface(node: InterfaceDeclaration): string {
-    try { return node.getMembers().map(m => canonicalizeType(m.getText())).sort().join(';'); } catch { return ''; }
+    try {
+        const typeParams = node.getTypeParameters().map(t => t.getText()).join(',');
+        const bases      = node.getExtends().map(e => e.getText()).sort().join(',');
+        const unnamed    = [
+            ...node.getCallSignatures(),
+            ...node.getConstructSignatures(),
+            ...node.getIndexSignatures(),
+        ].map(m => canonicalizeType(m.getText())).sort().join(';');
+        return `<${typeParams}>:[${bases}]:{${unnamed}}`;
+    } catch { return ''; }
+}
+
+function signPropertySignature(node: PropertySignature): string {
+    try {
+        const typeText = node.getTypeNode()?.getText() ?? node.getType().getText();
+        return `${node.isReadonly() ? 'readonly ' : ''}${node.hasQuestionToken() ? '?' : ''}:${canonicalizeType(typeText)}`;
+    } catch { return ''; }
+}
+
+/**
+ * Overloaded method signatures share one symbol.  Each is signed like a
+ * class method, in declaration order; an optional method (`m?(): T`) is
+ * marked with a leading `?`.
+ */
+function signMethodSignatures(nodes: MethodSignature[]): string {
+    try {
+        const optional = nodes.some(m => m.hasQuestionToken()) ? '?' : '';
+        return optional + nodes.map(signCallSignature).join(';');
+    } catch { return ''; }
+}
+
+/**
+ * Whether an interface property or method entry is declared optional
+ * (`x?: T`, `m?(): T`), read back from the signature the two functions
+ * above produce — implementers need not provide an optional member.
+ */
+export function isOptionalMember(entry: SymbolEntry): boolean {
+    return entry.kind === 'property'
+        ? /^(readonly )?\?/.test(entry.signature)
+        : entry.signature.startsWith('?');
 }
 
 function signTypeAlias(node: TypeAliasDeclaration): string {
     try { return canonicalizeType(node.getTypeNode()?.getText() ?? node.getType().getText()); } catch { return ''; }
 }
 
+/** An unannotated object literal is signed as a shell — see `signObjectLiteral`. */
 function signVariable(node: VariableDeclaration): string {
-    try { return canonicalizeType(node.getTypeNode()?.getText() ?? node.getType().getText()); } catch { return ''; }
+    const literal = getObjectLiteralInitializer(node);
+    if (literal && !node.getTypeNode() && !ts.getJSDocType(node.compilerNode)) { return signObjectLiteral(literal); }
+    try {
+        return canonicalizeType(typeText(node, node.getTypeNode(), ts.getJSDocType(node.compilerNode), () => node.getType()));
+    } catch { return ''; }
+}
+
+function signEnumMember(node: EnumMember): string {
+    try { return String(node.getValue() ?? ''); } catch { return ''; }
 }
 
+/**
+ * `const` enums are inlined at use sites, so the modifier is part of the API.
+ * Members are indexed as `enum-member` children with their own hashes.
+ */
 function signEnum(node: EnumDeclaration): string {
     try {
-        return node.getMembers().map(m => `${m.getName()}=${m.getValue() ?? ''}`).sort().join(',');
+        return `${node.isConstEnum() ? 'const ' : ''}enum`;
     } catch { return ''; }
 }
 
+function signExportAssignment(node: ExportAssignment): string {
+    const literal = getObjectLiteralInitializer(node);
+    if (literal) { return signObjectLiteral(literal); }
+    try { return canonicalizeType(node.getExpression().getType().getText()); } catch { return ''; }
+}
+
+/** `exports.x = <value>` has no declared type; sign what the checker infers, or a literal's shell. */
+function signCommonJsValue(value: Node): string {
+    if (Node.isObjectLiteralExpression(value)) { return signObjectLiteral(value); }
+    try { return canonicalizeType(value.getType().getText(value)); } catch { return ''; }
+}
+
+/**
+ * An object literal is signed like an interface shell: the members indexed
+ * as its children (see `getIndexedLiteralMember`) carry their own hashes, so
+ * editing one does not change the literal.  The members that are not
+ * indexed — plain values, accessors, spreads — are signed here, as in
+ * `{ port: number; ...defaults }`.
+ */
+function signObjectLiteral(literal: ObjectLiteralExpression): string {
+    try {
+        const members = literal.getProperties()
+            .filter(prop => !getIndexedLiteralMember(prop))
+            .map(prop => Node.isSpreadAssignment(prop)
+                ? `...${prop.getExpression().getText()}`
+                : `${prop.getNameNode().getText()}: ${canonicalizeType(prop.getType().getText(prop))}`);
+        return canonicalizeType(`{ ${members.join('; ')} }`);
+    } catch { return ''; }
+}
+
+// ---------------------------------------------------------------------------
+// Export naming — shared with the reference walker so both agree on ids
+// ---------------------------------------------------------------------------
+
+/** Name indexed for anonymous `export default` functions, classes and values. */
+export const DEFAULT_EXPORT_NAME = 'default';
+
+/**
+ * Name of the per-file `module` symbol.  The angle brackets keep it from
+ * colliding with any declared name.
+ */
+export const MODULE_SYMBOL_NAME = '<module>';
+
+/** Id of `filePath`'s `module` symbol. */
+export function moduleSymbolId(filePath: string): string {
+    return makeId(filePath, MODULE_SYMBOL_NAME);
+}
+
+/**
+ * Human-readable name of a symbol: `module: src/main.ts` for a module
+ * symbol (with `displayPath` being however the caller shows file paths),
+ * the symbol name otherwise.
+ */
+export function displaySymbolName(name: string, displayPath: string): string {
+    return name === MODULE_SYMBOL_NAME ? `module: ${displayPath}` : name;
+}
+
+/** Symbol name of an `export * from '<spec>'` declaration. */
+export function starExportName(moduleSpecifier: string): string {
+    return `* from '${moduleSpecifier}'`;
+}
+
+/** The name a specifier exports under: `b` for `export { a as b }`, else `a`. */
+export function getExportSpecifierName(spec: ExportSpecifier): string {
+    return spec.getAliasNode()?.getText().replace(/^['"]|['"]$/g, '') ?? spec.getName();
+}
+
+/** Look through parentheses and `as` / `satisfies` wrappers. */
+function unwrapExpression(expr: Node | undefined): Node | undefined {
+    while (
+        expr && (
+            Node.isParenthesizedExpression(expr) ||
+            Node.isAsExpression(expr) ||
+            Node.isSatisfiesExpression(expr)
+        )
+    ) {
+        expr = expr.getExpression();
+    }
+    return expr;
+}
+
+/**
+ * Return the function bound by `const x = () => {}`, `const x = function () {}`
+ * or an object-literal member `x: () => {}`, looking through parentheses and
+ * `as` / `satisfies` wrappers.  Returns undefined when the initializer is
+ * anything else (call, literal, …).
+ *
+ * Exported so the reference walker attributes the function body to the same
+ * symbol the extractor indexed it under.
+ */
+export function getFunctionInitializer(
+    decl: VariableDeclaration | PropertyAssignment,
+): ArrowFunction | FunctionExpression | undefined {
+    const init = unwrapExpression(decl.getInitializer());
+    if (init && (Node.isArrowFunction(init) || Node.isFunctionExpression(init))) { return init; }
+    return undefined;
+}
+
+/**
+ * Return the object literal bound by `const api = { … }`, an object-literal
+ * member `users: { … }` or `export default { … }`, looking through the same
+ * wrappers as `getFunctionInitializer`.
+ *
+ * Exported so the reference walker resolves object-literal members to the
+ * symbols the extractor indexed them under.
+ */
+export function getObjectLiteralInitializer(
+    decl: VariableDeclaration | PropertyAssignment | ExportAssignment,
+): ObjectLiteralExpression | undefined {
+    const init = unwrapExpression(Node.isExportAssignment(decl) ? decl.getExpression() : decl.getInitializer());
+    return init && Node.isObjectLiteralExpression(init) ? init : undefined;
+}
+
+/** `module.exports` */
+function isModuleExports(node: Node): boolean {
+    return (
+        Node.isPropertyAccessExpression(node) &&
+        node.getName() === 'exports' &&
+        Node.isIdentifier(node.getExpression()) &&
+        node.getExpression().getText() === 'module'
+    );
+}
+
+/**
+ * Recognise a top-level CommonJS export, returning the name it exports under
+ * and the assigned value (wrappers looked through):
+ *
+ *   exports.x = …  /  module.exports.x = …   → `x`
+ *   module.exports = …                       → `default`
+ *
+ * `assignment` is the `=` expression itself.  Undefined for anything else,
+ * including assignments nested in a function body.
+ *
+ * Exported so the reference walker maps CommonJS exports to the symbols the
+ * extractor indexed them under.
+ */
+export function getCommonJsExport(assignment: Node | undefined): { name: string; value: Expression } | undefined {
+    if (
+        !Node.isBinaryExpression(assignment) ||
+        assignment.getOperatorToken().getKind() !== SyntaxKind.EqualsToken ||
+        !Node.isExpressionStatement(assignment.getParent()) ||
+        !Node.isSourceFile(assignment.getParent()?.getParent())
+    ) { return undefined; }
+
+    const target = assignment.getLeft();
+    const value  = unwrapExpression(assignment.getRight());
+    if (!Node.isExpression(value)) { return undefined; }
+    if (isModuleExports(target)) { return { name: DEFAULT_EXPORT_NAME, value }; }
+    if (!Node.isPropertyAccessExpression(target)) { return undefined; }
+    const object = target.getExpression();
+    const isExportsObject = (Node.isIdentifier(object) && object.getText() === 'exports') || isModuleExports(object);
+    return isExportsObject ? { name: target.getName(), value } : undefined;
+}
+
 export function extractSymbols(sourceFile: SourceFile): SymbolEntry[] {
     const filePath = sourceFile.getFilePath();
-    const symbols: SymbolEntry[] = [];
+    const symbols: ExtractedEntry[] = [];
+
+    // The module itself — owns the references made by top-level statements
+    // (route registrations, `app.use(…)`, bootstrapping code).  Its API is
+    // the exports, which are indexed individually, so the signature is fixed.
+    symbols.push({
+        id: moduleSymbolId(filePath),
+        name: MODULE_SYMBOL_NAME,
+        kind: 'module',
+        filePath,
+        startLine: 1,
+        endLine: sourceFile.getEndLineNumber(),
+        startPos: 0,
+        endPos: sourceFile.getEnd(),
+        isExported: false,
+        parentId: null,
+        ...signed('module'),
+    });
 
-    // Functions — skip overload signatures, keep only the implementation
+    // Functions — one symbol per overload set, spanning all its signatures
     for (const fn of sourceFile.getFunctions()) {
-        if (fn.isOverload()) { continue; }
-        const name = fn.getName();
+        if (!isOverloadSetOwner(fn)) { continue; }
+        const name = fn.getName() ?? (fn.isDefaultExport() ? DEFAULT_EXPORT_NAME : undefined);
         if (!name) { continue; }
+        const component = isComponent(name, fn);
         symbols.push({
             id: makeId(filePath, name),
             name,
-            kind: 'function',
+            kind: component ? 'component' : 'function',
             filePath,
-            startLine: fn.getStartLineNumber(),
-            endLine: fn.getEndLineNumber(),
-            startPos: fn.getStart(),
-            endPos: fn.getEnd(),
+            ...overloadSetRange(fn),
             isExported: fn.isExported(),
             parentId: null,
-            signatureHash: hashText(signCallable(fn)),
+            ...signed(component ? signComponent(fn) : signCallable(fn)),
         });
+        extractNestedSymbols(fn, name, filePath, symbols);
     }
 
-    // Classes — include their methods and properties
+    // Classes — include their members
     for (const cls of sourceFile.getClasses()) {
-        const className = cls.getName();
+        const className = cls.getName() ?? (cls.isDefaultExport() ? DEFAULT_EXPORT_NAME : undefined);
         if (!className) { continue; }
-
-        const classId = makeId(filePath, className);
-        symbols.push({
-            id: classId,
-            name: className,
-            kind: 'class',
-            filePath,
-            startLine: cls.getStartLineNumber(),
-            endLine: cls.getEndLineNumber(),
-            startPos: cls.getStart(),
-            endPos: cls.getEnd(),
-            isExported: cls.isExported(),
-            parentId: null,
-            signatureHash: hashText(signClass(cls)),
-        });
-
-        for (const method of cls.getMethods()) {
-            if (method.isOverload()) { continue; }
-            const qualifiedName = `${className}.${method.getName()}`;
-            symbols.push({
-                id: makeId(filePath, qualifiedName),
-                name: qualifiedName,
-                kind: 'method',
-                filePath,
-                startLine: method.getStartLineNumber(),
-                endLine: method.getEndLineNumber(),
-                startPos: method.getStart(),
-                endPos: method.getEnd(),
-                isExported: cls.isExported(),
-                parentId: classId,
-                signatureHash: hashText(signCallable(method)),
-            });
-        }
-
-        for (const prop of cls.getProperties()) {
-            const qualifiedName = `${className}.${prop.getName()}`;
-            symbols.push({
-                id: makeId(filePath, qualifiedName),
-                name: qualifiedName,
-                kind: 'property',
-                filePath,
-                startLine: prop.getStartLineNumber(),
-                endLine: prop.getEndLineNumber(),
-                startPos: prop.getStart(),
-                endPos: prop.getEnd(),
-                isExported: cls.isExported(),
-                parentId: classId,
-                signatureHash: hashText(signProperty(prop)),
-            });
-        }
+        extractClassSymbols(cls, className, filePath, symbols);
     }
 
-    // Interfaces
+    // Interfaces — include their named members
     for (const iface of sourceFile.getInterfaces()) {
-        const name = iface.getName();
-        symbols.push({
-            id: makeId(filePath, name),
-            name,
-            kind: 'interface',
-            filePath,
-            startLine: iface.getStartLineNumber(),
-            endLine: iface.getEndLineNumber(),
-            startPos: iface.getStart(),
-            endPos: iface.getEnd(),
-            isExported: iface.isExported(),
-            parentId: null,
-            signatureHash: hashText(signInterface(iface)),
-        });
+        extractInterfaceSymbols(iface, iface.getName(), filePath, symbols);
     }
 
     // Type aliases
@@ -251,15 +649,16 @@ export function extractSymbols(sourceFile: SourceFile): SymbolEntry[] {
             endPos: typeAlias.getEnd(),
             isExported: typeAlias.isExported(),
             parentId: null,
-            signatureHash: hashText(signTypeAlias(typeAlias)),
+            ...signed(signTypeAlias(typeAlias)),
         });
     }
 
-    // Enums
+    // Enums — include their members
     for (const enm of sourceFile.getEnums()) {
-        const name = enm.getName();
+        const name   = enm.getName();
+        const enumId = makeId(filePath, name);
         symbols.push({
-            id: makeId(filePath, name),
+            id: enumId,
             name,
             kind: 'enum',
             filePath,
@@ -269,19 +668,43 @@ export function extractSymbols(sourceFile: SourceFile): SymbolEntry[] {
             endPos: enm.getEnd(),
             isExported: enm.isExported(),
             parentId: null,
-            signatureHash: hashText(signEnum(enm)),
+            ...signed(signEnum(enm)),
         });
+
+        for (const m of enm.getMembers()) {
+            const memberName = `${name}.${m.getName()}`;
+            symbols.push({
+                id: makeId(filePath, memberName),
+                name: memberName,
+                kind: 'enum-member',
+                filePath,
+                startLine: m.getStartLineNumber(),
+                endLine: m.getEndLineNumber(),
+                startPos: m.getStart(),
+                endPos: m.getEnd(),
+                isExported: enm.isExported(),
+                parentId: enumId,
+                ...signed(signEnumMember(m)),
+            });
+        }
     }
 
-    // Top-level variable declarations
+    // Top-level variable declarations.  Const-bound arrow functions and
+    // function expressions are callables in all but syntax, so they are
+    // indexed as functions (or components) and signed from their parameters
+    // / return type rather than from the inferred variable type.  Object literals
+    // (`const api = { getUser() {…} }`) also index their members.
     for (const varStatement of sourceFile.getVariableStatements()) {
         const isExported = varStatement.isExported();
         for (const decl of varStatement.getDeclarations()) {
-            const name = decl.getName();
+            const name    = decl.getName();
+            const fn      = getFunctionInitializer(decl);
+            const literal = getObjectLiteralInitializer(decl);
+            const component = fn !== undefined && isComponent(name, fn);
             symbols.push({
                 id: makeId(filePath, name),
                 name,
-                kind: 'variable',
+                kind: component ? 'component' : fn ? 'function' : 'variable',
                 filePath,
                 startLine: varStatement.getStartLineNumber(),
                 endLine: varStatement.getEndLineNumber(),
@@ -289,8 +712,10 @@ export function extractSymbols(sourceFile: SourceFile): SymbolEntry[] {
                 endPos: decl.getEnd(),
                 isExported,
                 parentId: null,
-                signatureHash: hashText(signVariable(decl)),
+                ...signed(component ? signComponent(fn) : fn ? signCallable(fn) : signVariable(decl)),
             });
+            if (fn)      { extractNestedSymbols(fn, name, filePath, symbols); }
+            if (literal) { extractObjectLiteralSymbols(literal, name, isExported, filePath, symbols); }
         }
     }
 
@@ -299,7 +724,80 @@ export function extractSymbols(sourceFile: SourceFile): SymbolEntry[] {
         extractNamespaceSymbols(ns, '', filePath, symbols);
     }
 
-    return symbols;
+    // `export default <expression>` — an identifier (`export default foo`) is
+    // only an alias and resolves to `foo` itself; anything else is a value
+    // that exists nowhere but here.
+    for (const assignment of sourceFile.getExportAssignments()) {
+        if (assignment.isExportEquals() || Node.isIdentifier(assignment.getExpression())) { continue; }
+        symbols.push({
+            id: makeId(filePath, DEFAULT_EXPORT_NAME),
+            name: DEFAULT_EXPORT_NAME,
+            kind: 'variable',
+            filePath,
+            startLine: assignment.getStartLineNumber(),
+            endLine: assignment.getEndLineNumber(),
+            startPos: assignment.getStart(),
+            endPos: assignment.getEnd(),
+            isExported: true,
+            parentId: null,
+            ...signed(signExportAssignment(assignment)),
+        });
+        const literal = getObjectLiteralInitializer(assignment);
+        if (literal) { extractObjectLiteralSymbols(literal, DEFAULT_EXPORT_NAME, true, filePath, symbols); }
+    }
+
+    extractReexportSymbols(sourceFile, symbols);
+    if (isJavaScript(sourceFile)) { extractCommonJsSymbols(sourceFile, symbols); }
+
+    const text = sourceFile.getFullText();
+    return symbols.map(entry => ({ ...entry, bodyHash: hashBody(text, entry) }));
+}
+
+/**
+ * Barrel re-exports — one `reexport` symbol per exported name, so that
+ * deleting or retargeting a re-export line breaks the consumers that import
+ * through the barrel:
+ *
+ *   export { a as b } from './x'   → `b`                (per specifier)
+ *   export * as ns from './x'      → `ns`
+ *   export * from './x'            → `* from './x'`     (see `starExportName`)
+ *
+ * Local export lists (`export { a }` without `from`) are not modelled: the
+ * name refers to a declaration in the same file, which is already indexed.
+ */
+function extractReexportSymbols(sourceFile: SourceFile, symbols: ExtractedEntry[]): void {
+    const filePath = sourceFile.getFilePath();
+    const push = (name: string, node: Node, signature: string): void => {
+        symbols.push({
+            id: makeId(filePath, name),
+            name,
+            kind: 'reexport',
+            filePath,
+            startLine: node.getStartLineNumber(),
+            endLine: node.getEndLineNumber(),
+            startPos: node.getStart(),
+            endPos: node.getEnd(),
+            isExported: true,
+            parentId: null,
+            ...signed(signature),
+        });
+    };
+
+    for (const decl of sourceFile.getExportDeclarations()) {
+        const moduleSpecifier = decl.getModuleSpecifierValue();
+        if (moduleSpecifier === undefined) { continue; }
+
+        const nsExport = decl.getNamespaceExport();
+        if (nsExport) {
+            push(nsExport.getName(), decl, `${moduleSpecifier}:*`);
+        } else if (!decl.hasNamedExports()) {
+            push(starExportName(moduleSpecifier), decl, `${moduleSpecifier}:*`);
+        } else {
+            for (const spec of decl.getNamedExports()) {
+                push(getExportSpecifierName(spec), spec, `${moduleSpecifier}:${spec.getName()}`);
+            }
+        }
+    }
 }
 
 /**
@@ -311,12 +809,12 @@ function extractNamespaceSymbols(
     ns: ModuleDeclaration,
     parentPrefix: string,
     filePath: string,
-    symbols: SymbolEntry[]
+    symbols: ExtractedEntry[]
 ): void {
     const nsPrefix = parentPrefix ? `${parentPrefix}.${ns.getName()}` : ns.getName();
 
     for (const fn of ns.getFunctions()) {
-        if (fn.isOverload()) { continue; }
+        if (!isOverloadSetOwner(fn)) { continue; }
         const name = fn.getName();
         if (!name) { continue; }
         const qualifiedName = `${nsPrefix}.${name}`;
@@ -325,71 +823,390 @@ function extractNamespaceSymbols(
             name: qualifiedName,
             kind: 'function',
             filePath,
-            startLine: fn.getStartLineNumber(),
-            endLine: fn.getEndLineNumber(),
-            startPos: fn.getStart(),
-            endPos: fn.getEnd(),
+            ...overloadSetRange(fn),
             isExported: fn.isExported(),
             parentId: null,
-            signatureHash: hashText(signCallable(fn)),
+            ...signed(signCallable(fn)),
         });
+        extractNestedSymbols(fn, qualifiedName, filePath, symbols);
     }
 
     for (const cls of ns.getClasses()) {
         const className = cls.getName();
         if (!className) { continue; }
-        const qualifiedClassName = `${nsPrefix}.${className}`;
-        const classId = makeId(filePath, qualifiedClassName);
+        extractClassSymbols(cls, `${nsPrefix}.${className}`, filePath, symbols);
+    }
+
+    for (const iface of ns.getInterfaces()) {
+        extractInterfaceSymbols(iface, `${nsPrefix}.${iface.getName()}`, filePath, symbols);
+    }
+
+    for (const nested of ns.getModules()) {
+        extractNamespaceSymbols(nested, nsPrefix, filePath, symbols);
+    }
+}
+
+/**
+ * Emit a class and its members.  Members are named `${qualifiedClassName}.x`
+ * and point at the class through `parentId`:
+ *
+ *   - methods                      → `method`
+ *   - properties, including constructor parameter properties → `property`
+ *   - the constructor              → `constructor` (`Foo.constructor`)
+ *   - get / set accessor pairs     → `accessor` (one entry spanning both)
+ *   - `static { … }` blocks        → `static-block` (`Foo.static[0]`, …)
+ */
+function extractClassSymbols(
+    cls: ClassDeclaration,
+    qualifiedClassName: string,
+    filePath: string,
+    symbols: ExtractedEntry[]
+): void {
+    const classId    = makeId(filePath, qualifiedClassName);
+    const isExported = cls.isExported();
+    symbols.push({
+        id: classId,
+        name: qualifiedClassName,
+        kind: 'class',
+        filePath,
+        startLine: cls.getStartLineNumber(),
+        endLine: cls.getEndLineNumber(),
+        startPos: cls.getStart(),
+        endPos: cls.getEnd(),
+        isExported,
+        parentId: null,
+        ...signed(signClass(cls)),
+    });
+
+    const member = (name: string, kind: SymbolKind, node: Node, signature: string): ExtractedEntry => ({
+        id: makeId(filePath, `${qualifiedClassName}.${name}`),
+        name: `${qualifiedClassName}.${name}`,
+        kind,
+        filePath,
+        startLine: node.getStartLineNumber(),
+        endLine: node.getEndLineNumber(),
+        startPos: node.getStart(),
+        endPos: node.getEnd(),
+        isExported,
+        parentId: classId,
+        ...signed(signature),
+    });
+
+    for (const method of cls.getMethods()) {
+        if (!isOverloadSetOwner(method)) { continue; }
+        symbols.push({ ...member(method.getName(), 'method', method, signCallable(method)), ...overloadSetRange(method) });
+        extractNestedSymbols(method, `${qualifiedClassName}.${method.getName()}`, filePath, symbols);
+    }
+
+    for (const prop of cls.getProperties()) {
+        symbols.push(member(prop.getName(), 'property', prop, signProperty(prop)));
+    }
+
+    // Constructor — one symbol for the overload set; parameter properties
+    // can only appear on the implementation
+    const ctor = cls.getConstructors().find(isOverloadSetOwner);
+    if (ctor) {
+        symbols.push({ ...member('constructor', 'constructor', ctor, signConstructor(ctor)), ...overloadSetRange(ctor) });
+        extractNestedSymbols(ctor, `${qualifiedClassName}.constructor`, filePath, symbols);
+        for (const param of ctor.getParameters()) {
+            if (!param.isParameterProperty()) { continue; }
+            symbols.push(member(param.getName(), 'property', param, signParameterProperty(param)));
+        }
+    }
+
+    // Accessors — a get/set pair shares one id; its range covers both halves
+    const accessorNames = new Set([
+        ...cls.getGetAccessors().map(a => a.getName()),
+        ...cls.getSetAccessors().map(a => a.getName()),
+    ]);
+    for (const name of accessorNames) {
+        const getter = cls.getGetAccessor(name);
+        const setter = cls.getSetAccessor(name);
+        const halves = [getter, setter].filter((a): a is GetAccessorDeclaration | SetAccessorDeclaration => a !== undefined);
+        const first  = halves.reduce((a, b) => (a.getStart() <= b.getStart() ? a : b));
+        const last   = halves.reduce((a, b) => (a.getEnd() >= b.getEnd() ? a : b));
+        const entry  = member(name, 'accessor', first, signAccessor(getter, setter));
+        entry.endLine = last.getEndLineNumber();
+        entry.endPos  = last.getEnd();
+        symbols.push(entry);
+        for (const half of halves) { extractNestedSymbols(half, entry.name, filePath, symbols); }
+    }
+
+    // Static blocks have no name or API; they are indexed by position so
+    // references made while the class initialises are attributed to them.
+    cls.getStaticBlocks().forEach((block, i) => {
+        symbols.push(member(`static[${i}]`, 'static-block', block, 'static'));
+    });
+}
+
+/**
+ * Emit an interface and its named members: property signatures as
+ * `property`, method signatures as `method` (overloads merged into one entry
+ * spanning all of them).  Members point at the interface through `parentId`.
+ */
+function extractInterfaceSymbols(
+    iface: InterfaceDeclaration,
+    qualifiedName: string,
+    filePath: string,
+    symbols: ExtractedEntry[]
+): void {
+    const interfaceId = makeId(filePath, qualifiedName);
+    const isExported  = iface.isExported();
+    symbols.push({
+        id: interfaceId,
+        name: qualifiedName,
+        kind: 'interface',
+        filePath,
+        startLine: iface.getStartLineNumber(),
+        endLine: iface.getEndLineNumber(),
+        startPos: iface.getStart(),
+        endPos: iface.getEnd(),
+        isExported,
+        parentId: null,
+        ...signed(signInterface(iface)),
+    });
+
+    for (const prop of iface.getProperties()) {
+        const memberName = `${qualifiedName}.${prop.getName()}`;
         symbols.push({
-            id: classId,
-            name: qualifiedClassName,
-            kind: 'class',
+            id: makeId(filePath, memberName),
+            name: memberName,
+            kind: 'property',
             filePath,
-            startLine: cls.getStartLineNumber(),
-            endLine: cls.getEndLineNumber(),
-            startPos: cls.getStart(),
-            endPos: cls.getEnd(),
-            isExported: cls.isExported(),
-            parentId: null,
-            signatureHash: hashText(signClass(cls)),
+            startLine: prop.getStartLineNumber(),
+            endLine: prop.getEndLineNumber(),
+            startPos: prop.getStart(),
+            endPos: prop.getEnd(),
+            isExported,
+            parentId: interfaceId,
+            ...signed(signPropertySignature(prop)),
         });
-        for (const method of cls.getMethods()) {
-            if (method.isOverload()) { continue; }
-            const mName = `${qualifiedClassName}.${method.getName()}`;
-            symbols.push({
-                id: makeId(filePath, mName),
-                name: mName,
-                kind: 'method',
-                filePath,
-                startLine: method.getStartLineNumber(),
-                endLine: method.getEndLineNumber(),
-                startPos: method.getStart(),
-                endPos: method.getEnd(),
-                isExported: cls.isExported(),
-                parentId: classId,
-                signatureHash: hashText(signCallable(method)),
+    }
+
+    const methodsByName = new Map<string, MethodSignature[]>();
+    for (const method of iface.getMethods()) {
+        const list = methodsByName.get(method.getName()) ?? [];
+        list.push(method);
+        methodsByName.set(method.getName(), list);
+    }
+    for (const [name, overloads] of methodsByName) {
+        const first = overloads[0];
+        const last  = overloads[overloads.length - 1];
+        const memberName = `${qualifiedName}.${name}`;
+        symbols.push({
+            id: makeId(filePath, memberName),
+            name: memberName,
+            kind: 'method',
+            filePath,
+            startLine: first.getStartLineNumber(),
+            endLine: last.getEndLineNumber(),
+            startPos: first.getStart(),
+            endPos: last.getEnd(),
+            isExported,
+            parentId: interfaceId,
+            ...signed(signMethodSignatures(overloads)),
+        });
+    }
+}
+
+/**
+ * Emit the functions declared inside a callable's body as children of it:
+ * `function helper() {}` and `const helper = () => {}` inside `outer` become
+ * `outer.helper` (kind `function`, not exported), recursively.
+ *
+ * Anonymous callbacks are looked through — a helper declared inside
+ * `items.map(x => { … })` still belongs to `outer` — but nested classes are
+ * not, since their members would need a class of their own.  The reference
+ * walker mirrors these rules when it maps a nested function to its id.
+ */
+function extractNestedSymbols(
+    owner: CallableNode | ConstructorDeclaration | GetAccessorDeclaration | SetAccessorDeclaration,
+    qualifiedOwnerName: string,
+    filePath: string,
+    symbols: ExtractedEntry[]
+): void {
+    const ownerId = makeId(filePath, qualifiedOwnerName);
+    const body    = owner.getBody();
+    if (!body) { return; }
+
+    const emit = (localName: string, fn: CallableNode, range: Pick<SymbolEntry, 'startLine' | 'endLine' | 'startPos' | 'endPos'>): void => {
+        const name = `${qualifiedOwnerName}.${localName}`;
+        symbols.push({
+            id: makeId(filePath, name),
+            name,
+            kind: 'function',
+            filePath,
+            ...range,
+            isExported: false,
+            parentId: ownerId,
+            ...signed(signCallable(fn)),
+        });
+        extractNestedSymbols(fn, name, filePath, symbols);
+    };
+
+    const visit = (node: Node): void => {
+        if (Node.isClassDeclaration(node) || Node.isClassExpression(node)) { return; }
+
+        const fnName = Node.isFunctionDeclaration(node) ? node.getName() : undefined;
+        if (Node.isFunctionDeclaration(node) && fnName) {
+            if (isOverloadSetOwner(node)) { emit(fnName, node, overloadSetRange(node)); }
+            return;
+        }
+
+        const fn = Node.isVariableDeclaration(node) ? getFunctionInitializer(node) : undefined;
+        if (Node.isVariableDeclaration(node) && fn) {
+            emit(node.getName(), fn, {
+                startLine: node.getStartLineNumber(),
+                endLine:   node.getEndLineNumber(),
+                startPos:  node.getStart(),
+                endPos:    node.getEnd(),
             });
+            return;
         }
-    }
 
-    for (const iface of ns.getInterfaces()) {
-        const name = `${nsPrefix}.${iface.getName()}`;
+        node.forEachChild(visit);
+    };
+    body.forEachChild(visit);
+}
+
+/**
+ * Emit the members of an object literal bound to a top-level variable or
+ * `export default` as children of it, so router / store modules built from
+ * literals get the same precision as classes:
+ *
+ *   - methods and function-valued properties (`getUser() {}`, `list: () => …`)
+ *                                 → `method` (`api.getUser`), with their own
+ *                                   nested functions
+ *   - object-valued properties   → `property` (`store.actions`), whose
+ *                                   members are indexed the same way
+ *
+ * Other properties, computed keys and spreads are not indexed; they are
+ * part of the literal's own signature.
+ */
+function extractObjectLiteralSymbols(
+    literal: ObjectLiteralExpression,
+    qualifiedOwnerName: string,
+    isExported: boolean,
+    filePath: string,
+    symbols: ExtractedEntry[]
+): void {
+    const ownerId = makeId(filePath, qualifiedOwnerName);
+
+    for (const prop of literal.getProperties()) {
+        const member = getIndexedLiteralMember(prop);
+        if (!member) { continue; }
+
+        const name = `${qualifiedOwnerName}.${member.name}`;
         symbols.push({
             id: makeId(filePath, name),
             name,
-            kind: 'interface',
+            kind: member.fn ? 'method' : 'property',
             filePath,
-            startLine: iface.getStartLineNumber(),
-            endLine: iface.getEndLineNumber(),
-            startPos: iface.getStart(),
-            endPos: iface.getEnd(),
-            isExported: iface.isExported(),
-            parentId: null,
-            signatureHash: hashText(signInterface(iface)),
+            startLine: prop.getStartLineNumber(),
+            endLine: prop.getEndLineNumber(),
+            startPos: prop.getStart(),
+            endPos: prop.getEnd(),
+            isExported,
+            parentId: ownerId,
+            ...signed(member.fn ? signCallable(member.fn) : signObjectLiteral(member.nested)),
         });
+
+        if (member.fn) { extractNestedSymbols(member.fn, name, filePath, symbols); }
+        else           { extractObjectLiteralSymbols(member.nested, name, isExported, filePath, symbols); }
     }
+}
 
-    for (const nested of ns.getModules()) {
-        extractNamespaceSymbols(nested, nsPrefix, filePath, symbols);
+type LiteralMember =
+    | { name: string; fn: CallableNode; nested?: undefined }
+    | { name: string; fn?: undefined; nested: ObjectLiteralExpression };
+
+/**
+ * A literal member `extractObjectLiteralSymbols` indexes: a method or a
+ * function- or object-valued property with a plain name.
+ */
+function getIndexedLiteralMember(prop: ObjectLiteralElementLike): LiteralMember | undefined {
+    if (!Node.isMethodDeclaration(prop) && !Node.isPropertyAssignment(prop)) { return undefined; }
+    if (prop.getNameNode().getKind() !== SyntaxKind.Identifier) { return undefined; }
+
+    const fn     = Node.isMethodDeclaration(prop) ? prop : getFunctionInitializer(prop);
+    const nested = Node.isPropertyAssignment(prop) ? getObjectLiteralInitializer(prop) : undefined;
+    if (fn)     { return { name: prop.getName(), fn }; }
+    if (nested) { return { name: prop.getName(), nested }; }
+    return undefined;
+}
+
+/**
+ * CommonJS exports in JavaScript files, indexed like their ES module
+ * counterparts so `require()` callers resolve to them:
+ *
+ *   exports.x = function () {}     → `x` (function), with nested functions
+ *   exports.x = { … }              → `x` (variable) and its literal members
+ *   exports.x = <other value>      → `x` (variable)
+ *   exports.x = x                  → the local `x`, marked exported
+ *   module.exports = { a, b() {} } → each member, as if assigned one by one
+ *   module.exports = <value>       → `default`
+ *
+ * An assignment never replaces a symbol indexed from a declaration.
+ */
+function extractCommonJsSymbols(sourceFile: SourceFile, symbols: ExtractedEntry[]): void {
+    const filePath = sourceFile.getFilePath();
+    const byId     = new Map(symbols.map(entry => [entry.id, entry]));
+
+    const emit = (name: string, value: Node, range: Node): void => {
+        const id       = makeId(filePath, name);
+        const existing = byId.get(id);
+        if (existing) {
+            // `exports.add = add` — the declaration is the export
+            if (Node.isIdentifier(value) && value.getText() === name) { existing.isExported = true; }
+            return;
+        }
+
+        const fn      = Node.isArrowFunction(value) || Node.isFunctionExpression(value) || Node.isMethodDeclaration(value)
+            ? value
+            : undefined;
+        const literal = Node.isObjectLiteralExpression(value) ? value : undefined;
+        const entry: ExtractedEntry = {
+            id,
+            name,
+            kind: fn ? 'function' : 'variable',
+            filePath,
+            startLine: range.getStartLineNumber(),
+            endLine: range.getEndLineNumber(),
+            startPos: range.getStart(),
+            endPos: range.getEnd(),
+            isExported: true,
+            parentId: null,
+            ...signed(fn ? signCallable(fn) : signCommonJsValue(value)),
+        };
+        symbols.push(entry);
+        byId.set(id, entry);
+        if (fn)      { extractNestedSymbols(fn, name, filePath, symbols); }
+        if (literal) { extractObjectLiteralSymbols(literal, name, true, filePath, symbols); }
+    };
+
+    for (const statement of sourceFile.getStatements()) {
+        if (!Node.isExpressionStatement(statement)) { continue; }
+        const cjs = getCommonJsExport(statement.getExpression());
+        if (!cjs) { continue; }
+
+        if (cjs.name !== DEFAULT_EXPORT_NAME) {
+            emit(cjs.name, cjs.value, statement);
+        } else if (Node.isObjectLiteralExpression(cjs.value)) {
+            for (const prop of cjs.value.getProperties()) {
+                if (Node.isShorthandPropertyAssignment(prop)) {
+                    emit(prop.getName(), prop.getNameNode(), prop);
+                } else if (Node.isMethodDeclaration(prop)) {
+                    emit(prop.getName(), prop, prop);
+                } else if (Node.isPropertyAssignment(prop) && prop.getNameNode().getKind() === SyntaxKind.Identifier) {
+                    emit(prop.getName(), unwrapExpression(prop.getInitializer()) ?? prop, prop);
+                }
+            }
+        } else if (Node.isIdentifier(cjs.value)) {
+            // `module.exports = foo` is an alias of `foo`, as `export default foo` is
+            const local = byId.get(makeId(filePath, cjs.value.getText()));
+            if (local) { local.isExported = true; }
+        } else {
+            emit(DEFAULT_EXPORT_NAME, cjs.value, statement);
+        }
     }
 }
@@ -1,11 +1,36 @@
 import * as vscode from 'vscode';
 import { Project } from 'ts-morph';
-import { extractSymbols, SymbolEntry } from './symbolExtractor';
+import { extractSymbols, moduleSymbolId, SymbolEntry } from './symbolExtractor';
+import { isIncludedByIndexFilter } from './indexFilter';
 
 export type SymbolIndex = Map<string, SymbolEntry>;
 
 const SYMBOLS_CACHE_PATH = '.blastradius/symbols.json';
 
+/**
+ * True when `filePath` lies inside the directory `rootFsPath`.  A plain
+ * `startsWith` would also match sibling folders sharing a name prefix
+ * (`/ws/app` vs `/ws/app-admin`), which matters once several workspace
+ * folders share one symbol index.
+ */
+export function isWithinRoot(filePath: string, rootFsPath: string): boolean {
+    const root = rootFsPath.replace(/\\/g, '/').replace(/\/$/, '');
+    return filePath === root || filePath.startsWith(`${root}/`);
+}
+
+/**
+ * True for files `buildSymbolIndex` indexes under `rootFsPath`.
+ *
+ * Skips node_modules and whatever the folder's index filter excludes (by
+ * default Next.js build output and other generated dirs).  ts-morph loads
+ * these for type resolution, but they are not workspace symbols — indexing
+ * them would pollute the lookup table and slow declarationToSymbolId
+ * resolution.
+ */
+export function isIndexableFile(filePath: string, rootFsPath: string): boolean {
+    return isWithinRoot(filePath, rootFsPath) && isIncludedByIndexFilter(filePath, rootFsPath);
+}
+
 export async function buildSymbolIndex(
     project: Project,
     workspaceRoot: vscode.Uri
@@ -17,18 +42,7 @@ export async function buildSymbolIndex(
 
     const rootFsPath = workspaceRoot.fsPath.replace(/\\/g, '/');
     for (const sourceFile of sourceFiles) {
-        const fp = sourceFile.getFilePath();
-        // Skip node_modules, Next.js build output, and other generated dirs.
-        // ts-morph loads these for type resolution, but they are not workspace
-        // symbols — indexing them would pollute the lookup table and slow
-        // declarationToSymbolId resolution.
-        if (
-            !fp.startsWith(rootFsPath)     ||
-            fp.includes('/node_modules/') ||
-            fp.includes('/.next/')        ||
-            fp.includes('/dist/')         ||
-            fp.includes('/out/')
-        ) { continue; }
+        if (!isIndexableFile(sourceFile.getFilePath(), rootFsPath)) { continue; }
         const symbols = extractSymbols(sourceFile);
         for (const symbol of symbols) {
             index.set(symbol.id, symbol);
@@ -42,12 +56,20 @@ export async function buildSymbolIndex(
     return index;
 }
 
+/**
+ * Write the entries of `index` that belong to `workspaceRoot` to its
+ * `.blastradius/symbols.json`.  In a multi-root workspace the live index is
+ * shared by every folder; each folder's cache only holds its own symbols.
+ */
 export async function persistSymbolIndex(
     index: SymbolIndex,
     workspaceRoot: vscode.Uri
 ): Promise<void> {
     const symbolsUri = vscode.Uri.joinPath(workspaceRoot, SYMBOLS_CACHE_PATH);
-    const serializable = Object.fromEntries(index);
+    const rootFsPath = workspaceRoot.fsPath.replace(/\\/g, '/');
+    const serializable = Object.fromEntries(
+        [...index].filter(([, entry]) => isWithinRoot(entry.filePath, rootFsPath)),
+    );
     const encoded = new TextEncoder().encode(JSON.stringify(serializable, null, 2));
     await vscode.workspace.fs.writeFile(symbolsUri, encoded);
     console.log(`[RippleCheck] Symbol index persisted → ${symbolsUri.fsPath}`);
@@ -111,6 +133,31 @@ export function findSymbolsInCharRange(
     return results;
 }
 
+/**
+ * Return the symbols that enclose `pos` strictly — the position lies after
+ * their start and before their end.  Used for pure-deletion hunks, whose
+ * position is the start of a line: a symbol beginning on that line or
+ * ending just before it did not lose any code.
+ *
+ * @param symbolIndex  The live symbol index.
+ * @param filePath     Absolute path of the file (must match SymbolEntry.filePath).
+ * @param pos          Character offset, e.g. from `diffDeletionToCharPos`.
+ */
+export function findSymbolsContainingPos(
+    symbolIndex: SymbolIndex,
+    filePath: string,
+    pos: number,
+): import('./symbolExtractor').SymbolEntry[] {
+    const results: import('./symbolExtractor').SymbolEntry[] = [];
+    for (const entry of symbolIndex.values()) {
+        if (entry.filePath !== filePath) { continue; }
+        if (entry.startPos < pos && pos < entry.endPos) {
+            results.push(entry);
+        }
+    }
+    return results;
+}
+
 /**
  * Convert a git-diff line range (1-based, inclusive) to absolute character
  * offsets that can be passed to findSymbolsInCharRange.
@@ -149,3 +196,48 @@ export function diffLinesToCharRange(
 
     return { startPos, endPos };
 }
+
+/**
+ * Convert the position of a pure-deletion hunk (`@@ -l,n +afterLine,0 @@`)
+ * to the character offset the lines were removed at: the start of the line
+ * following `afterLine`, which is 0 when the lines were at the top of the file.
+ *
+ * @param sourceText  Full text content of the file.
+ * @param afterLine   1-based line the removed lines followed, or 0.
+ */
+export function diffDeletionToCharPos(sourceText: string, afterLine: number): number {
+    let pos = 0;
+    for (let line = 0; line < afterLine; line++) {
+        const newline = sourceText.indexOf('\n', pos);
+        if (newline < 0) { return sourceText.length; }
+        pos = newline + 1;
+    }
+    return pos;
+}
+
+/**
+ * Every symbol a diff hunk touches, given its new-side range
+ * (`+startLine,lineCount`): the symbols overlapping the changed lines, or —
+ * for a pure deletion (`lineCount` 0) — those enclosing the point the lines
+ * were removed from, falling back to the file's module symbol.
+ *
+ * @param sourceText  Full text of the file on the hunk's new side.
+ */
+export function findSymbolsTouchedByHunk(
+    symbolIndex: SymbolIndex,
+    filePath: string,
+    sourceText: string,
+    startLine: number,
+    lineCount: number,
+): import('./symbolExtractor').SymbolEntry[] {
+    if (lineCount === 0) {
+        // Lines removed from the very top or bottom of the file lie outside
+        // every declaration, the module symbol included — they were
+        // top-level code, so the module owns them.
+        const enclosing    = findSymbolsContainingPos(symbolIndex, filePath, diffDeletionToCharPos(sourceText, startLine));
+        const moduleSymbol = symbolIndex.get(moduleSymbolId(filePath));
+        return enclosing.length > 0 || !moduleSymbol ? enclosing : [moduleSymbol];
+    }
+    const { startPos, endPos } = diffLinesToCharRange(sourceText, startLine, startLine + lineCount - 1);
+    return findSymbolsInCharRange(symbolIndex, filePath, startPos, endPos);
+}
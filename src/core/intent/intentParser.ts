@@ -48,7 +48,8 @@ function buildRepoContext(symbolIndex: SymbolIndex, workspaceRootFsPath: string)
     const fileOverflow = filesSet.size > MAX_CONTEXT_FILES ? ` (${filesSet.size - MAX_CONTEXT_FILES} more not shown)` : '';
 
     // ── Symbols: exported first, then alphabetical within file ───────────
-    const allEntries = Array.from(symbolIndex.values());
+    // Module symbols are already covered by the file list above.
+    const allEntries = Array.from(symbolIndex.values()).filter(e => e.kind !== 'module');
     allEntries.sort(
         (a, b) =>
             (b.isExported ? 1 : 0) - (a.isExported ? 1 : 0) ||
@@ -155,6 +155,7 @@ const STOPWORDS = new Set<string>([
     'if','want','need','use','using','used','update','change','modify','delete',
     'remove','implement','existing','current','code','codebase','repo','feature',
     'file','files','module','modules','function','class','method','type','interface',
+    'component','components',
     'support','allow','enable','ensure','provide','return','call','pass','handle',
 ]);
 
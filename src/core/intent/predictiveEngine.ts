@@ -1,5 +1,5 @@
 import { SymbolIndex } from '../indexing/symbolIndex';
-import { DependencyGraph } from '../graph/types';
+import { DependencyGraph, EdgeKind, EdgeUsage } from '../graph/types';
 import { BlastRadiusResult, traverseImpact } from '../blast/blastRadiusEngine';
 import { ResolvedIntent, ResolvedConfidence, ResolvedSymbol } from './types';
 import { buildVirtualDiff } from './virtualDiff';
@@ -168,7 +168,7 @@ export function computePredictiveBlastRadius(
     }
 
     const confidenceMap = new Map<string, ResolvedConfidence>();
-    const { depthMap, paths } = blastResult;
+    const { depthMap, paths, pathKinds, usageMap, renderedProps, dispatchTargets } = blastResult;
 
     for (const [symbolId, depth] of depthMap) {
         const symbolPaths = paths.get(symbolId) ?? [];
@@ -198,6 +198,10 @@ export function computePredictiveBlastRadius(
     let outIndirect = blastResult.indirectImpact;
     let outDepthMap = depthMap;
     let outPaths    = paths;
+    let outKinds    = pathKinds;
+    let outUsage    = usageMap;
+    let outProps    = renderedProps;
+    let outDispatch = dispatchTargets;
     let outConfMap  = confidenceMap;
 
     if (resolvedIntent.descriptor.changeType === 'delete' && resolvedIntent.symbols.length > 0) {
@@ -215,15 +219,27 @@ export function computePredictiveBlastRadius(
         outIndirect = outIndirect.filter(id => !isInDeletedFile(id));
         const fdm = new Map<string, number>();
         const fpm = new Map<string, string[][]>();
+        const fkm = new Map<string, EdgeKind[][][]>();
+        const fum = new Map<string, EdgeUsage>();
+        const frp = new Map<string, string[]>();
+        const fdt = new Map<string, string[]>();
         const fcm = new Map<string, ResolvedConfidence>();
         for (const [id, d] of outDepthMap) {
             if (isInDeletedFile(id)) { continue; }
             fdm.set(id, d);
             const pp = outPaths.get(id);    if (pp) { fpm.set(id, pp); }
+            const kk = outKinds.get(id);    if (kk) { fkm.set(id, kk); }
+            const uu = outUsage.get(id);    if (uu) { fum.set(id, uu); }
+            const rp = outProps.get(id);    if (rp) { frp.set(id, rp); }
+            const dt = outDispatch.get(id); if (dt) { fdt.set(id, dt); }
             const cc = outConfMap.get(id);  if (cc) { fcm.set(id, cc); }
         }
         outDepthMap = fdm;
         outPaths    = fpm;
+        outKinds    = fkm;
+        outUsage    = fum;
+        outProps    = frp;
+        outDispatch = fdt;
         outConfMap  = fcm;
     }
 
@@ -246,6 +262,10 @@ export function computePredictiveBlastRadius(
         indirectImpact: outIndirect,
         depthMap:      outDepthMap,
         paths:         outPaths,
+        pathKinds:     outKinds,
+        usageMap:      outUsage,
+        renderedProps: outProps,
+        dispatchTargets: outDispatch,
         stagedGraph:   shadowGraph,
         confidenceMap: outConfMap,
         phantomIds,
@@ -272,6 +292,10 @@ function emptyBlastResult(roots: BlastRadiusResult['roots']): BlastRadiusResult
         indirectImpact: [],
         depthMap:       new Map(),
         paths:          new Map(),
+        pathKinds:      new Map(),
+        usageMap:       new Map(),
+        renderedProps:  new Map(),
+        dispatchTargets: new Map(),
     };
 }
 
@@ -1,6 +1,6 @@
 import { SymbolIndex } from '../indexing/symbolIndex';
 import { SymbolEntry } from '../indexing/symbolExtractor';
-import { DependencyGraph } from '../graph/types';
+import { DependencyGraph, EdgeKind } from '../graph/types';
 import {
     ImpactRoot,
     PropagationMode,
@@ -64,7 +64,17 @@ function cloneGraph(graph: DependencyGraph): DependencyGraph {
         for (const [k, v] of m) { out.set(k, new Set(v)); }
         return out;
     };
-    return { forward: cloneMap(graph.forward), reverse: cloneMap(graph.reverse) };
+    const edgeKinds = new Map<string, Map<string, Set<EdgeKind>>>();
+    for (const [k, targets] of graph.edgeKinds) {
+        const out = new Map<string, Set<EdgeKind>>();
+        for (const [to, kinds] of targets) { out.set(to, new Set(kinds)); }
+        edgeKinds.set(k, out);
+    }
+    const renderProps = new Map<string, Map<string, Set<string>>>();
+    for (const [k, targets] of graph.renderProps) {
+        renderProps.set(k, cloneMap(targets));
+    }
+    return { forward: cloneMap(graph.forward), reverse: cloneMap(graph.reverse), edgeKinds, renderProps };
 }
 
 // ---------------------------------------------------------------------------
@@ -210,7 +220,9 @@ export function buildVirtualDiff(
                     endPos:        0,
                     isExported:    true,
                     parentId:      null,
+                    signature:     '',
                     signatureHash: '',
+                    bodyHash:      '',
                 };
                 shadowIndex.set(phantomId, entry);
                 phantomIds.push(phantomId);
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { Project } from 'ts-morph';
-import { SymbolIndex } from '../indexing/symbolIndex';
+import { SymbolIndex, isIndexableFile } from '../indexing/symbolIndex';
+import { IGNORE_FILE_NAME, INDEX_FILTER_SECTION, reloadIndexFilter } from '../indexing/indexFilter';
 import { DependencyGraph } from '../graph/types';
 import { SignatureChangeResult } from '../analysis/signatureAnalyzer';
 import {
@@ -29,6 +30,13 @@ export interface FileWatcherOptions {
      * to re-run `computeStagedBlastRadius` since staged content changed.
      */
     onStagingChange?: () => void;
+
+    /**
+     * Called when a source file on disk changes — saved in the editor,
+     * written by another tool, created, deleted or renamed.  Analyses of
+     * unstaged changes compare the files on disk, so they re-run here.
+     */
+    onWorkingTreeChange?: () => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -48,12 +56,7 @@ function debounce<T extends (...args: any[]) => void>(fn: T, delayMs: number): T
 // ---------------------------------------------------------------------------
 
 function isWatchedFile(fsPath: string, workspaceRootFsPath: string): boolean {
-    return (
-        fsPath.startsWith(workspaceRootFsPath) &&
-        !fsPath.includes('/node_modules/') &&
-        !fsPath.includes('/.blastradius/') &&
-        /\.(ts|tsx|js|jsx)$/.test(fsPath)
-    );
+    return isIndexableFile(fsPath, workspaceRootFsPath) && /\.(ts|tsx|js|jsx)$/.test(fsPath);
 }
 
 // ---------------------------------------------------------------------------
@@ -106,8 +109,17 @@ export function registerFileWatcher(
         return true;
     }
 
+    // --- Files on disk changed — debounced so a "Save All" runs once ---
+    const onWorkingTreeChange = options?.onWorkingTreeChange
+        ? debounce(options.onWorkingTreeChange, 400)
+        : undefined;
+
     context.subscriptions.push(
-        vscode.workspace.onDidSaveTextDocument(doc => markEditorSaved(doc.uri.fsPath.replace(/\\/g, '/')))
+        vscode.workspace.onDidSaveTextDocument(doc => {
+            const fsPath = doc.uri.fsPath.replace(/\\/g, '/');
+            markEditorSaved(fsPath);
+            if (isWatchedFile(fsPath, rootFsPath)) { onWorkingTreeChange?.(); }
+        })
     );
 
     // --- Document edits (in-memory, before save) — debounced ---
@@ -131,6 +143,7 @@ export function registerFileWatcher(
                 const fp = file.fsPath.replace(/\\/g, '/');
                 if (!isWatchedFile(fp, rootFsPath)) { continue; }
                 handleFileCreated(fp, project, symbolIndex, graph, rootFsPath);
+                onWorkingTreeChange?.();
             }
         })
     );
@@ -142,6 +155,7 @@ export function registerFileWatcher(
                 const fp = file.fsPath.replace(/\\/g, '/');
                 if (!isWatchedFile(fp, rootFsPath)) { continue; }
                 handleFileDeleted(fp, project, symbolIndex, graph);
+                onWorkingTreeChange?.();
             }
         })
     );
@@ -158,6 +172,9 @@ export function registerFileWatcher(
                 if (isWatchedFile(newFsPath, rootFsPath)) {
                     handleFileCreated(newFsPath, project, symbolIndex, graph, rootFsPath);
                 }
+                if (isWatchedFile(oldFsPath, rootFsPath) || isWatchedFile(newFsPath, rootFsPath)) {
+                    onWorkingTreeChange?.();
+                }
             }
         })
     );
@@ -179,6 +196,7 @@ export function registerFileWatcher(
         if (wasEditorSaved(fsPath)) { return; } // editor already handled it
         // Read from disk — this is an external change (git, CLI, another editor)
         handleFileCreated(fsPath, project, symbolIndex, graph, rootFsPath);
+        onWorkingTreeChange?.();
     }, 400);
 
     externalFileWatcher.onDidChange(onExternalChange);
@@ -233,5 +251,26 @@ export function registerFileWatcher(
     refsHeadsWatcher.onDidChange(onGitRefChange);
     refsHeadsWatcher.onDidCreate(onGitRefChange);
 
+    // --- Index filter changes — settings or .ripplecheckignore ---
+    // Files may have entered or left the index, so rebuild from scratch
+    // under the new filter.
+    const onIndexFilterChange = debounce(() => {
+        reloadIndexFilter(rootFsPath);
+        triggerRebuild(project, symbolIndex, graph, workspaceRoot, 'Index filter changed');
+    }, 600);
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(INDEX_FILTER_SECTION, workspaceRoot)) { onIndexFilterChange(); }
+        })
+    );
+    const ignoreFileWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(workspaceRoot, IGNORE_FILE_NAME)
+    );
+    context.subscriptions.push(ignoreFileWatcher);
+    ignoreFileWatcher.onDidChange(onIndexFilterChange);
+    ignoreFileWatcher.onDidCreate(onIndexFilterChange);
+    ignoreFileWatcher.onDidDelete(onIndexFilterChange);
+
     console.log('[RippleCheck] File watcher registered');
 }
@@ -1,12 +1,14 @@
 import * as vscode from 'vscode';
 import { Project } from 'ts-morph';
-import { SymbolIndex } from '../indexing/symbolIndex';
+import { SymbolIndex, isWithinRoot, isIndexableFile, persistSymbolIndex } from '../indexing/symbolIndex';
 import { extractSymbols } from '../indexing/symbolExtractor';
 import { walkSourceFile } from '../indexing/referenceWalker';
 import { DependencyGraph } from '../graph/types';
 import { snapshotSignatures, detectSignatureChanges, SignatureChangeResult } from '../analysis/signatureAnalyzer';
+import { classifySignatureChanges } from '../analysis/signatureCompatibility';
 import { persistDependencyGraph } from '../graph/graphStore';
 import { computeFileHash, saveFileHashes } from '../cache/fileHashStore';
+import { computeProjectHash, writeCacheMetadata } from '../cache/cacheManager';
 
 // ---------------------------------------------------------------------------
 // Step A + B — remove a file's symbols and their edges from the graph
@@ -46,6 +48,8 @@ export function removeFileFromGraph(
             }
             graph.forward.delete(symbolId);
         }
+        graph.edgeKinds.delete(symbolId);
+        graph.renderProps.delete(symbolId);
 
         // Remove reverse edges pointing back to this symbol from other owners
         // (their forward edges to this symbol are now dangling — clean both)
@@ -57,6 +61,16 @@ export function removeFileFromGraph(
                     forwardSet.delete(symbolId);
                     if (forwardSet.size === 0) { graph.forward.delete(ownerId); }
                 }
+                const ownerKinds = graph.edgeKinds.get(ownerId);
+                if (ownerKinds) {
+                    ownerKinds.delete(symbolId);
+                    if (ownerKinds.size === 0) { graph.edgeKinds.delete(ownerId); }
+                }
+                const ownerProps = graph.renderProps.get(ownerId);
+                if (ownerProps) {
+                    ownerProps.delete(symbolId);
+                    if (ownerProps.size === 0) { graph.renderProps.delete(ownerId); }
+                }
             }
             graph.reverse.delete(symbolId);
         }
@@ -97,8 +111,10 @@ function refreshSourceFile(
 
 function reindexSourceFile(
     sourceFile: ReturnType<Project['getSourceFiles']>[number],
-    symbolIndex: SymbolIndex
+    symbolIndex: SymbolIndex,
+    workspaceRootFsPath: string
 ): void {
+    if (!isIndexableFile(sourceFile.getFilePath(), workspaceRootFsPath)) { return; }
     const symbols = extractSymbols(sourceFile);
     for (const symbol of symbols) {
         symbolIndex.set(symbol.id, symbol);
@@ -121,51 +137,103 @@ export function handleFileChanged(
     graph: DependencyGraph,
     workspaceRootFsPath: string
 ): SignatureChangeResult {
-    const t0 = Date.now();
-
-    // Snapshot signatures BEFORE wiping so we can detect what changed
-    const oldHashes = snapshotSignatures(fsPath, symbolIndex);
+    return handleFilesChanged(new Map([[fsPath, newContent]]), project, symbolIndex, graph, workspaceRootFsPath).get(fsPath)!;
+}
 
-    // Capture reverse edges of all current file symbols BEFORE removal so that
-    // we can later identify who depended on deleted symbols.
-    const preRemovalDependents = new Map<string, string[]>();
-    for (const [id, entry] of symbolIndex) {
-        if (entry.filePath === fsPath) {
-            const deps = graph.reverse.get(id);
-            if (deps && deps.size > 0) {
-                preRemovalDependents.set(id, [...deps]);
+/**
+ * Several files changed together — the files of a commit or a revision
+ * range.  `contents` maps each path to its new text.
+ *
+ * Every file is replaced and re-indexed before any of them is walked, so a
+ * reference from one to another resolves to the new symbols whatever order
+ * the files come in — a dependent updated to import a symbol from a new
+ * file is linked to it even when the new file comes later.  Signature
+ * changes are then detected and classified with every file in place.
+ *
+ * `otherFilesChanged` tells the classifier that files besides `contents`
+ * changed too (deleted ones, say), whose new state the previous text of
+ * each file would otherwise be checked against unawares.
+ */
+export function handleFilesChanged(
+    contents: Map<string, string>,
+    project: Project,
+    symbolIndex: SymbolIndex,
+    graph: DependencyGraph,
+    workspaceRootFsPath: string,
+    otherFilesChanged = contents.size > 1
+): Map<string, SignatureChangeResult> {
+    const t0 = Date.now();
+    const results = new Map<string, SignatureChangeResult>();
+
+    // Snapshot every file BEFORE any is wiped — removing one file also drops
+    // the edges its symbols had into the others.
+    const snapshots = [...contents.keys()].map(fsPath => {
+        // Signatures so we can detect what changed, and the previous text so
+        // changed signatures can be compared type-wise
+        const oldEntries   = snapshotSignatures(fsPath, symbolIndex);
+        const previousText = project.getSourceFile(fsPath)?.getFullText();
+
+        // Reverse edges of all current file symbols, so that we can later
+        // identify who depended on deleted symbols.
+        const preRemovalDependents = new Map<string, string[]>();
+        for (const [id, entry] of symbolIndex) {
+            if (entry.filePath === fsPath) {
+                const deps = graph.reverse.get(id);
+                if (deps && deps.size > 0) {
+                    preRemovalDependents.set(id, [...deps]);
+                }
             }
         }
+        return { fsPath, oldEntries, previousText, preRemovalDependents };
+    });
+
+    const updated: Array<typeof snapshots[number] & { sourceFile: ReturnType<Project['getSourceFiles']>[number] }> = [];
+    for (const snapshot of snapshots) {
+        // Step A + B: erase stale knowledge
+        removeFileFromGraph(snapshot.fsPath, symbolIndex, graph);
+
+        // Step C: refresh source file with in-memory content
+        const sourceFile = refreshSourceFile(project, snapshot.fsPath, contents.get(snapshot.fsPath));
+        if (!sourceFile) {
+            results.set(snapshot.fsPath, {
+                ripple: [], compatibility: new Map(), signatureDiffs: new Map(), safe: [], added: [],
+                removed: Array.from(snapshot.oldEntries.keys()), preRemovalDependents: new Map(),
+            });
+            continue;
+        }
+        updated.push({ ...snapshot, sourceFile });
     }
 
-    // Step A + B: erase stale knowledge
-    removeFileFromGraph(fsPath, symbolIndex, graph);
-
-    // Step C: refresh source file with in-memory content
-    const sourceFile = refreshSourceFile(project, fsPath, newContent);
-    if (!sourceFile) {
-        return { ripple: [], safe: [], added: [], removed: Array.from(oldHashes.keys()), preRemovalDependents: new Map() };
+    // Step D: re-extract symbols of every file, then re-walk references
+    for (const { sourceFile } of updated) {
+        reindexSourceFile(sourceFile, symbolIndex, workspaceRootFsPath);
+    }
+    for (const { sourceFile } of updated) {
+        walkSourceFile(sourceFile, symbolIndex, workspaceRootFsPath, graph);
     }
 
-    // Step D: re-extract symbols and re-walk references
-    reindexSourceFile(sourceFile, symbolIndex);
-    walkSourceFile(sourceFile, symbolIndex, workspaceRootFsPath, graph);
+    for (const { fsPath, oldEntries, previousText, preRemovalDependents } of updated) {
+        const changes = detectSignatureChanges(fsPath, oldEntries, symbolIndex);
+        if (previousText !== undefined) {
+            changes.compatibility = classifySignatureChanges(
+                project, fsPath, previousText, changes.ripple, symbolIndex, otherFilesChanged,
+            );
+        }
 
-    const changes = detectSignatureChanges(fsPath, oldHashes, symbolIndex);
+        // Attach pre-removal dependents for removed symbols only
+        for (const removedId of changes.removed) {
+            const deps = preRemovalDependents.get(removedId);
+            if (deps) { changes.preRemovalDependents.set(removedId, deps); }
+        }
 
-    // Attach pre-removal dependents for removed symbols only
-    for (const removedId of changes.removed) {
-        const deps = preRemovalDependents.get(removedId);
-        if (deps) { changes.preRemovalDependents.set(removedId, deps); }
+        console.log(
+            `[RippleCheck] Incremental update (edit) — ${fsPath} — ${Date.now() - t0}ms ` +
+            `| ripple: ${changes.ripple.length}, safe: ${changes.safe.length}, ` +
+            `added: ${changes.added.length}, removed: ${changes.removed.length}`
+        );
+        results.set(fsPath, changes);
     }
-
-    const elapsed = Date.now() - t0;
-    console.log(
-        `[RippleCheck] Incremental update (edit) — ${fsPath} — ${elapsed}ms ` +
-        `| ripple: ${changes.ripple.length}, safe: ${changes.safe.length}, ` +
-        `added: ${changes.added.length}, removed: ${changes.removed.length}`
-    );
-    return changes;
+    return results;
 }
 
 /**
@@ -185,7 +253,7 @@ export function handleFileCreated(
     if (!sourceFile) { return; }
 
     // Step D: index symbols and record references
-    reindexSourceFile(sourceFile, symbolIndex);
+    reindexSourceFile(sourceFile, symbolIndex, workspaceRootFsPath);
     walkSourceFile(sourceFile, symbolIndex, workspaceRootFsPath, graph);
 
     console.log(`[RippleCheck] Incremental update (create) — ${fsPath} — ${Date.now() - t0}ms`);
@@ -215,11 +283,18 @@ export function handleFileDeleted(
 }
 
 /**
- * Full in-place rebuild — used after a git branch switch.
+ * Full in-place rebuild — used after a git branch switch and when the index
+ * filter changes.
  *
- * Clears the symbol index and both graph maps, then re-analyses every source
- * file in the existing project. Yields to the event loop every 10 files so
- * the VSCode UI stays responsive during large-project rebuilds.
+ * Clears this workspace folder's symbols and the edges they own, then
+ * re-analyses every source file in the existing project. Yields to the event
+ * loop every 10 files so the VSCode UI stays responsive during large-project
+ * rebuilds.
+ *
+ * In a multi-root workspace the index and graph are shared, so other folders'
+ * symbols are left alone, and so are their edges into this folder — those
+ * files were not re-read, and their references are still valid unless the
+ * target disappeared (in which case it surfaces as a ghost, as usual).
  *
  * The Maps are mutated in-place so all existing closure references stay valid.
  */
@@ -232,9 +307,22 @@ export async function rebuildInPlace(
 ): Promise<void> {
     const t0 = Date.now();
 
-    symbolIndex.clear();
-    graph.forward.clear();
-    graph.reverse.clear();
+    for (const [id, entry] of symbolIndex) {
+        if (isWithinRoot(entry.filePath, workspaceRootFsPath)) { symbolIndex.delete(id); }
+    }
+    for (const [fromId, deps] of graph.forward) {
+        if (!isWithinRoot(fromId.slice(0, fromId.indexOf('#')), workspaceRootFsPath)) { continue; }
+        for (const depId of deps) {
+            const reverseSet = graph.reverse.get(depId);
+            if (reverseSet) {
+                reverseSet.delete(fromId);
+                if (reverseSet.size === 0) { graph.reverse.delete(depId); }
+            }
+        }
+        graph.forward.delete(fromId);
+        graph.edgeKinds.delete(fromId);
+        graph.renderProps.delete(fromId);
+    }
 
     const yield_ = () => new Promise<void>(r => setImmediate(r));
 
@@ -248,6 +336,7 @@ export async function rebuildInPlace(
     // Re-extract symbols
     i = 0;
     for (const sf of project.getSourceFiles()) {
+        if (!isIndexableFile(sf.getFilePath(), workspaceRootFsPath)) { continue; }
         const symbols = extractSymbols(sf);
         for (const sym of symbols) { symbolIndex.set(sym.id, sym); }
         if (++i % 20 === 0) { await yield_(); }
@@ -264,6 +353,8 @@ export async function rebuildInPlace(
     // Without this the on-disk cache diverges from the in-memory state after
     // every git checkout / merge / reset.  The next startup would re-patch all
     // files even when switching back to a branch the cache already knows about.
+    // The metadata records the current index filter, so a rebuild caused by a
+    // filter change is also the cache the next startup accepts.
     const newHashes = new Map<string, string>();
     for (const sf of project.getSourceFiles()) {
         const fp   = sf.getFilePath();
@@ -271,8 +362,10 @@ export async function rebuildInPlace(
         if (hash) { newHashes.set(fp, hash); }
     }
     await Promise.all([
+        persistSymbolIndex(symbolIndex, workspaceRoot),
         persistDependencyGraph(graph, workspaceRoot),
         saveFileHashes(newHashes, workspaceRoot),
+        writeCacheMetadata(workspaceRoot, computeProjectHash(workspaceRootFsPath)),
     ]);
 
     console.log(`[RippleCheck] Full rebuild complete — ${Date.now() - t0}ms`);
@@ -2,21 +2,30 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
 import { Project, SourceFile } from 'ts-morph';
-import { ensureCacheDirectory, computeProjectHash, writeCacheMetadata } from './core/cache/cacheManager';
+import { ensureCacheDirectory, computeProjectHash, writeCacheMetadata, CACHE_VERSION } from './core/cache/cacheManager';
 import { loadCachedSymbolIndex, loadCachedDependencyGraph, loadCachedMetadata } from './core/cache/cacheLoader';
 import { computeFileHash, saveFileHashes, loadFileHashes } from './core/cache/fileHashStore';
 import { loadProject } from './core/indexing/projectLoader';
-import { buildSymbolIndex, persistSymbolIndex } from './core/indexing/symbolIndex';
+import { buildSymbolIndex, persistSymbolIndex, isWithinRoot, isIndexableFile } from './core/indexing/symbolIndex';
 import { extractSymbols } from './core/indexing/symbolExtractor';
 import { GitVisualizerPanel } from './webview/panel';
 import { GraphPanel } from './webview/graphPanel';
 import { buildReferenceGraph, walkSourceFile } from './core/indexing/referenceWalker';
-import { persistDependencyGraph } from './core/graph/graphStore';
+import { persistDependencyGraph, mergeDependencyGraph } from './core/graph/graphStore';
 import { buildGraphElements } from './core/graph/graphElements';
 import { removeFileFromGraph } from './core/watch/incrementalUpdater';
 import { registerFileWatcher } from './core/watch/fileWatcher';
-import { computeStagedBlastRadius, computeInEditorBlastRadius, BlastRadiusResult } from './core/blast/blastRadiusEngine';
-import { getStagedFiles } from './core/git/stagedSnapshot';
+import {
+	computeStagedBlastRadius,
+	computeWorkingTreeBlastRadius,
+	computeRangeBlastRadius,
+	computeInEditorBlastRadius,
+	mergeBlastRadiusResults,
+	BlastRadiusResult,
+} from './core/blast/blastRadiusEngine';
+import { getStagedFiles, StagedFileEntry } from './core/git/stagedSnapshot';
+import { DiffHunk, stageHunks } from './core/git/diffParser';
+import { DiffSource, LocalChangeScope, describeDiffSource, localChangeSource, resolveRevisionRange } from './core/git/diffSource';
 import { DependencyGraph } from './core/graph/types';
 import { SymbolIndex } from './core/indexing/symbolIndex';
 import { parseIntent } from './core/intent/intentParser';
@@ -24,6 +33,22 @@ import { resolveIntent } from './core/intent/intentResolver';
 import { computePredictiveBlastRadius } from './core/intent/predictiveEngine';
 import { buildImpactReport, persistImpactReport } from './core/impact/impactReport';
 
+/**
+ * Per-folder state of a (possibly multi-root) workspace.  Each folder keeps its
+ * own ts-morph project, `.blastradius/` cache, file watcher and staging area;
+ * the symbol index and dependency graph are shared so edges can cross folders.
+ */
+interface WorkspaceFolderState {
+	uri: vscode.Uri;
+	rootFsPath: string;
+	project: Project;
+	projectHash: string;
+	/** Cache hit: files to re-walk.  Cache miss: undefined — the folder is walked in full. */
+	staleSourceFiles?: SourceFile[];
+	/** Per-file content hashes to save once the folder is indexed. */
+	fileHashes: Map<string, string>;
+}
+
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
 export async function activate(context: vscode.ExtensionContext) {
@@ -32,135 +57,211 @@ export async function activate(context: vscode.ExtensionContext) {
 
 	// Hoisted so closures in registerFileWatcher and provider callbacks capture live values.
 	let symbolIndex: SymbolIndex | undefined;
-	let project: Project | undefined;
 	let graph: DependencyGraph | undefined;
 	let provider: GitVisualizerPanel | undefined;
 	let workspaceRootFsPath = '';
+	const folders: WorkspaceFolderState[] = [];
 
 	const workspaceFolders = vscode.workspace.workspaceFolders;
 	if (workspaceFolders && workspaceFolders.length > 0) {
+		// The first folder hosts workspace-wide output (What If? reports).
 		const workspaceRoot = workspaceFolders[0].uri;
 		workspaceRootFsPath = workspaceRoot.fsPath.replace(/\\/g, '/');
 
-		// Step 1 — ensure .blastradius/ and its files exist
-		await ensureCacheDirectory(workspaceRoot);
-
-		// Step 2 — load the ts-morph project (needed for both cache and full-rebuild paths)
-		project = loadProject(workspaceRootFsPath);
-		const currentHash = computeProjectHash(workspaceRootFsPath);
-
-		// Step 3 — attempt to restore from cache (parallel reads)
-		const [cachedSymbols, cachedGraph, cachedMeta] = await Promise.all([
-			loadCachedSymbolIndex(workspaceRoot),
-			loadCachedDependencyGraph(workspaceRoot),
-			loadCachedMetadata(workspaceRoot),
-		]);
-
-		const cacheValid =
-			cachedSymbols !== null &&
-			cachedGraph  !== null &&
-			cachedMeta   !== null &&
-			cachedMeta.projectHash === currentHash &&
-			cachedSymbols.size > 0;
-
-		if (cacheValid) {
-			// Cache hit — restore live structures, patch only content-changed files
-			symbolIndex = cachedSymbols!;
-			graph       = cachedGraph!;
-
-			const cachedHashes   = await loadFileHashes(workspaceRoot);
-			const activeFilePaths = new Set<string>();
-			const newHashes       = new Map<string, string>();
-
-			// ── Pass 1: remove stale files and re-index their symbols ───────────
-			// All removals must complete BEFORE any re-walks.  If we interleaved
-			// (remove A → re-walk A → remove B → re-walk B), re-walking A would
-			// add edge A→B, then removing B would erase it.  B's later re-walk
-			// would never restore A→B because A is already processed.  Two
-			// passes guarantee every cross-file edge is re-established correctly.
-			const yield_ = () => new Promise<void>(r => setImmediate(r));
-			const staleSourceFiles: SourceFile[] = [];
-			let staleI = 0;
-
-			for (const sf of project.getSourceFiles()) {
-				const fp = sf.getFilePath();
-				activeFilePaths.add(fp);
-
-				const currentHash = computeFileHash(fp);
-				newHashes.set(fp, currentHash);
-
-				const isStale = currentHash === '' || currentHash !== cachedHashes.get(fp);
-				if (isStale) {
-					removeFileFromGraph(fp, symbolIndex, graph);
-					try { sf.refreshFromFileSystemSync(); } catch { continue; }
-					const newSymbols = extractSymbols(sf);
-					for (const sym of newSymbols) { symbolIndex.set(sym.id, sym); }
-					staleSourceFiles.push(sf); // only queued if refresh succeeded
+		const sharedIndex: SymbolIndex      = new Map();
+		const sharedGraph: DependencyGraph  = { forward: new Map(), reverse: new Map(), edgeKinds: new Map(), renderProps: new Map() };
+		const yield_ = () => new Promise<void>(r => setImmediate(r));
+
+		// ── Phase 1: restore every folder's cache into the shared structures ──
+		// All caches are merged before any stale file is patched, so removing a
+		// stale file also drops edges other folders' caches recorded into it.
+		const cachedHashesByFolder: Array<Map<string, string> | null> = [];
+		for (const folder of workspaceFolders) {
+			const uri        = folder.uri;
+			const rootFsPath = uri.fsPath.replace(/\\/g, '/');
+
+			// Step 1 — ensure .blastradius/ and its files exist
+			await ensureCacheDirectory(uri);
+
+			// Step 2 — load the ts-morph project (needed for both cache and full-rebuild paths)
+			const project     = loadProject(rootFsPath);
+			const projectHash = computeProjectHash(rootFsPath);
+
+			// Step 3 — attempt to restore from cache (parallel reads)
+			const [cachedSymbols, cachedGraph, cachedMeta] = await Promise.all([
+				loadCachedSymbolIndex(uri),
+				loadCachedDependencyGraph(uri),
+				loadCachedMetadata(uri),
+			]);
+
+			const cacheValid =
+				cachedSymbols !== null &&
+				cachedGraph  !== null &&
+				cachedMeta   !== null &&
+				cachedMeta.projectHash === projectHash &&
+				cachedMeta.version     === CACHE_VERSION &&
+				cachedSymbols.size > 0;
+
+			if (cacheValid) {
+				for (const [id, entry] of cachedSymbols!) { sharedIndex.set(id, entry); }
+				mergeDependencyGraph(sharedGraph, cachedGraph!);
+				cachedHashesByFolder.push(await loadFileHashes(uri));
+			} else {
+				cachedHashesByFolder.push(null);
+			}
+			folders.push({ uri, rootFsPath, project, projectHash, fileHashes: new Map() });
+		}
+
+		// ── Phase 2: patch stale folders, index rebuilt ones ─────────────────
+		for (const [i, folder] of folders.entries()) {
+			const { project, rootFsPath } = folder;
+			const cachedHashes = cachedHashesByFolder[i];
+
+			if (cachedHashes) {
+				// Cache hit — patch only content-changed files
+				const activeFilePaths = new Set<string>();
+
+				// ── Pass 1: remove stale files and re-index their symbols ───────────
+				// All removals must complete BEFORE any re-walks.  If we interleaved
+				// (remove A → re-walk A → remove B → re-walk B), re-walking A would
+				// add edge A→B, then removing B would erase it.  B's later re-walk
+				// would never restore A→B because A is already processed.  Two
+				// passes guarantee every cross-file edge is re-established correctly.
+				const staleSourceFiles: SourceFile[] = [];
+				let staleI = 0;
+
+				for (const sf of project.getSourceFiles()) {
+					const fp = sf.getFilePath();
+					activeFilePaths.add(fp);
+
+					const currentHash = computeFileHash(fp);
+					folder.fileHashes.set(fp, currentHash);
+
+					// Files of other folders pulled in as dependencies are patched
+					// by their own folder; excluded files are not indexed at all.
+					if (!isIndexableFile(fp, rootFsPath)) { continue; }
+
+					const isStale = currentHash === '' || currentHash !== cachedHashes.get(fp);
+					if (isStale) {
+						removeFileFromGraph(fp, sharedIndex, sharedGraph);
+						try { sf.refreshFromFileSystemSync(); } catch { continue; }
+						const newSymbols = extractSymbols(sf);
+						for (const sym of newSymbols) { sharedIndex.set(sym.id, sym); }
+						staleSourceFiles.push(sf); // only queued if refresh succeeded
+					}
+					if (++staleI % 20 === 0) { await yield_(); }
+				}
+
+				// Remove symbols whose source files were deleted since the cache was written
+				const deletedPaths = new Set<string>();
+				for (const entry of sharedIndex.values()) {
+					if (!isWithinRoot(entry.filePath, rootFsPath)) { continue; }
+					if (!activeFilePaths.has(entry.filePath)) { deletedPaths.add(entry.filePath); }
+				}
+				for (const fp of deletedPaths) { removeFileFromGraph(fp, sharedIndex, sharedGraph); }
+
+				folder.staleSourceFiles = staleSourceFiles;
+				console.log(`[RippleCheck] Cache restored for ${rootFsPath} — ${deletedPaths.size} deleted, ${staleSourceFiles.length} stale file(s)`);
+
+			} else {
+				// Cache miss or project structure changed — full rebuild
+				console.log(`[RippleCheck] Cache miss for ${rootFsPath} — full rebuild...`);
+				const folderIndex = await buildSymbolIndex(project, folder.uri);
+				for (const [id, entry] of folderIndex) { sharedIndex.set(id, entry); }
+
+				// Snapshot per-file content hashes so the next startup can diff precisely
+				for (const sf of project.getSourceFiles()) {
+					folder.fileHashes.set(sf.getFilePath(), computeFileHash(sf.getFilePath()));
 				}
-				if (++staleI % 20 === 0) { await yield_(); }
 			}
+		}
 
-			// ── Pass 2: re-walk all stale files now that the full index is ready ─
-			staleI = 0;
-			for (const sf of staleSourceFiles) {
-				walkSourceFile(sf, symbolIndex, workspaceRootFsPath, graph);
-				if (++staleI % 20 === 0) { await yield_(); }
+		// ── Phase 3: walk references now that every folder's symbols are known ─
+		// Walking only after all folders are indexed lets a reference in one
+		// folder resolve to a declaration in another.
+		for (const folder of folders) {
+			if (folder.staleSourceFiles) {
+				// ── Pass 2: re-walk all stale files now that the full index is ready ─
+				let staleI = 0;
+				for (const sf of folder.staleSourceFiles) {
+					walkSourceFile(sf, sharedIndex, folder.rootFsPath, sharedGraph);
+					if (++staleI % 20 === 0) { await yield_(); }
+				}
+			} else {
+				mergeDependencyGraph(sharedGraph, buildReferenceGraph(folder.project, sharedIndex, folder.rootFsPath));
 			}
+		}
 
-			// Remove symbols whose source files were deleted since the cache was written
-			const deletedPaths = new Set<string>();
-			for (const entry of symbolIndex.values()) {
-				if (!activeFilePaths.has(entry.filePath)) { deletedPaths.add(entry.filePath); }
+		// A rebuilt folder has lost the reverse half of edges that other
+		// folders' caches recorded into it (reverse entries are persisted with
+		// their target).  Restore them from the forward edges, skipping targets
+		// that no longer exist after the rebuild.
+		if (folders.length > 1) {
+			for (const [fromId, deps] of sharedGraph.forward) {
+				for (const depId of deps) {
+					if (!sharedIndex.has(depId)) { continue; }
+					let dependents = sharedGraph.reverse.get(depId);
+					if (!dependents) { dependents = new Set(); sharedGraph.reverse.set(depId, dependents); }
+					dependents.add(fromId);
+				}
 			}
-			for (const fp of deletedPaths) { removeFileFromGraph(fp, symbolIndex, graph); }
+		}
 
-			// Persist updated hashes, symbol index (with fresh signatureHashes),
-			// and graph so the next startup has accurate baselines for all three.
+		// ── Phase 4: persist each folder's slice of the shared state ──────────
+		// Updated hashes, symbol index (with fresh signatureHashes), and graph so
+		// the next startup has accurate baselines for all three.
+		for (const folder of folders) {
 			await Promise.all([
-				saveFileHashes(newHashes, workspaceRoot),
-				persistSymbolIndex(symbolIndex, workspaceRoot),
-				persistDependencyGraph(graph, workspaceRoot),
+				saveFileHashes(folder.fileHashes, folder.uri),
+				persistSymbolIndex(sharedIndex, folder.uri),
+				persistDependencyGraph(sharedGraph, folder.uri),
+				...(folder.staleSourceFiles ? [] : [writeCacheMetadata(folder.uri, folder.projectHash)]),
 			]);
+			folder.staleSourceFiles = undefined;
+		}
 
-			console.log(`[RippleCheck] Cache restored — ${deletedPaths.size} deleted, stale files patched`);
+		symbolIndex = sharedIndex;
+		graph       = sharedGraph;
+		console.log(`[RippleCheck] Workspace indexed — ${folders.length} folder(s), ${sharedIndex.size} symbol(s)`);
 
-		} else {
-			// Cache miss or project structure changed — full rebuild
-			console.log('[RippleCheck] Cache miss — full rebuild...');
-			symbolIndex = await buildSymbolIndex(project, workspaceRoot);
-			graph       = buildReferenceGraph(project, symbolIndex, workspaceRootFsPath);
-			await persistDependencyGraph(graph, workspaceRoot);
-			await writeCacheMetadata(workspaceRoot, currentHash);
-
-			// Snapshot per-file content hashes so the next startup can diff precisely
-			const hashes = new Map<string, string>();
-			for (const sf of project.getSourceFiles()) {
-				hashes.set(sf.getFilePath(), computeFileHash(sf.getFilePath()));
-			}
-			await saveFileHashes(hashes, workspaceRoot);
-		}
+		/** The folder a file belongs to — reports are written to that folder's cache. */
+		const folderOf = (filePath: string): WorkspaceFolderState =>
+			folders.find(f => isWithinRoot(filePath, f.rootFsPath)) ?? folders[0];
+		const rootPaths = folders.map(f => f.rootFsPath);
 
 		// ── Register the file-based graph loader for the panel ─────────────────
 		// Called every time the graph panel opens so it always reflects the
-		// latest graph.json + symbols.json written to .blastradius/.
+		// latest graph.json + symbols.json written to .blastradius/ — merged
+		// across every workspace folder.
 		GraphPanel.setGraphLoader(async () => {
 			console.log('[RippleCheck] Graph loader called — reading .blastradius/graph.json + symbols.json...');
-			const [idx, g] = await Promise.all([
-				loadCachedSymbolIndex(workspaceRoot),
-				loadCachedDependencyGraph(workspaceRoot),
-			]);
-			if (!idx) {
-				console.warn('[RippleCheck] Graph loader — symbols.json missing or empty, cannot build graph');
-				return { nodes: [], edges: [] };
+			const idx: SymbolIndex     = new Map();
+			const g: DependencyGraph   = { forward: new Map(), reverse: new Map(), edgeKinds: new Map(), renderProps: new Map() };
+			for (const folder of folders) {
+				const [folderIdx, folderGraph] = await Promise.all([
+					loadCachedSymbolIndex(folder.uri),
+					loadCachedDependencyGraph(folder.uri),
+				]);
+				if (!folderIdx) {
+					console.warn(`[RippleCheck] Graph loader — symbols.json missing or empty in ${folder.rootFsPath}`);
+					continue;
+				}
+				if (!folderGraph) {
+					console.warn(`[RippleCheck] Graph loader — graph.json missing or empty in ${folder.rootFsPath}`);
+					continue;
+				}
+				for (const [id, entry] of folderIdx) { idx.set(id, entry); }
+				mergeDependencyGraph(g, folderGraph);
 			}
-			if (!g) {
-				console.warn('[RippleCheck] Graph loader — graph.json missing or empty, cannot build graph');
+			if (idx.size === 0) {
+				console.warn('[RippleCheck] Graph loader — no cached graph available, cannot build graph');
 				return { nodes: [], edges: [] };
 			}
 			console.log(`[RippleCheck] Graph loader — index: ${idx.size} symbol(s), forward edges: ${g.forward.size} owner(s)`);
 			const empty: BlastRadiusResult = {
 				roots: [], directImpact: [], indirectImpact: [],
-				depthMap: new Map(), paths: new Map(),
+				depthMap: new Map(), paths: new Map(), pathKinds: new Map(), usageMap: new Map(), renderedProps: new Map(),
+				dispatchTargets: new Map(),
 			};
 			const { nodes, edges } = buildGraphElements(idx, g, empty);
 			console.log(`[RippleCheck] Graph loader — built ${nodes.length} node(s), ${edges.length} edge(s) — posting to panel`);
@@ -175,16 +276,59 @@ export async function activate(context: vscode.ExtensionContext) {
 		// newer analysis has already started and this result is discarded.
 		let analysisVersion = 0;
 
+		// Which local changes "Analyze" and staging-area updates look at —
+		// chosen with the panel's Staged / Unstaged / Both selector.
+		let changeScope: LocalChangeScope = 'staged';
+
 		// ── Helper: run blast radius and push to all open panels ────────────────
-		const runAnalysis = async (): Promise<void> => {
+		// Every folder's local changes (`changeScope`) are analysed — or, given
+		// `rangeSpec`, the changes between two revisions; the folders'
+		// impact is merged into one result.  With several
+		// folders, a range is only analysed in the folders whose repository
+		// has its revisions.
+		const runAnalysis = async (rangeSpec?: string): Promise<void> => {
 			const myVersion = ++analysisVersion;
 			provider?.postAnalysisStart();
 			try {
-				const result     = await computeStagedBlastRadius(project!, symbolIndex!, graph!, workspaceRootFsPath);
-				if (myVersion !== analysisVersion) { return; } // stale — newer analysis started
-				const stagedFiles = await getStagedFiles(workspaceRootFsPath);
-				if (myVersion !== analysisVersion) { return; }
-				provider?.postResult(result, stagedFiles, symbolIndex!, workspaceRootFsPath);
+				const folderResults: BlastRadiusResult[] = [];
+				const stagedFiles: StagedFileEntry[]     = [];
+				let source: DiffSource = localChangeSource(changeScope);
+				for (const folder of folders) {
+					if (rangeSpec !== undefined) {
+						try {
+							source = await resolveRevisionRange(folder.rootFsPath, rangeSpec);
+						} catch (err) {
+							if (folders.length === 1) { throw err; }
+							console.warn(`[RippleCheck] Skipping ${folder.rootFsPath} — ${String(err)}`);
+							continue;
+						}
+						if (myVersion !== analysisVersion) { return; }
+					}
+					if (source.kind === 'range') {
+						folderResults.push(await computeRangeBlastRadius(
+							folder.project, symbolIndex!, graph!, folder.rootFsPath, source,
+						));
+					} else if (source.kind === 'working-tree') {
+						folderResults.push(await computeWorkingTreeBlastRadius(
+							folder.project, symbolIndex!, graph!, folder.rootFsPath, source,
+						));
+					} else {
+						const verifyCompilation = vscode.workspace
+							.getConfiguration('ripplecheck', folder.uri)
+							.get<boolean>('verifyCompilation', false);
+						folderResults.push(await computeStagedBlastRadius(
+							folder.project, symbolIndex!, graph!, folder.rootFsPath, verifyCompilation,
+						));
+					}
+					if (myVersion !== analysisVersion) { return; } // stale — newer analysis started
+					stagedFiles.push(...await getStagedFiles(folder.rootFsPath, source));
+					if (myVersion !== analysisVersion) { return; }
+				}
+				if (folderResults.length === 0) {
+					throw new Error(`No workspace folder has the revisions of '${rangeSpec}'`);
+				}
+				const result = mergeBlastRadiusResults(folderResults);
+				provider?.postResult(result, stagedFiles, symbolIndex!, rootPaths, describeDiffSource(source));
 
 				// Push fresh graph data (with blast-radius overlay) to the open panel.
 				const { nodes, edges } = buildGraphElements(symbolIndex!, graph!, result);
@@ -196,8 +340,11 @@ export async function activate(context: vscode.ExtensionContext) {
 				});
 
 				// Persist impact.json
-				const report = buildImpactReport(result, symbolIndex!, graph!, workspaceRootFsPath, 'staged');
-				void persistImpactReport(report, workspaceRoot);
+				for (const folder of folders) {
+					const report = buildImpactReport(result, symbolIndex!, graph!, folder.rootFsPath, source.kind);
+					if (source.kind === 'range') { report.range = source.label; }
+					void persistImpactReport(report, folder.uri);
+				}
 			} catch (err) {
 				if (myVersion !== analysisVersion) { return; }
 				console.error('[RippleCheck] Blast radius error:', err);
@@ -217,15 +364,17 @@ export async function activate(context: vscode.ExtensionContext) {
 					changeResult.removed,
 					changeResult.preRemovalDependents,
 					graph!,
+					changeResult.compatibility,
+					changeResult.signatureDiffs,
 				);
 				if (myVersion !== analysisVersion) { return; }
 				// Show the changed file itself in the "Changed Files" list so the
 				// panel isn't completely empty on that section.
-				const fakeEntry: import('./core/git/stagedSnapshot').StagedFileEntry = {
+				const fakeEntry: StagedFileEntry = {
 					status: 'M',
 					absolutePath: filePath,
 				};
-				provider?.postResult(result, [fakeEntry], symbolIndex!, workspaceRootFsPath);
+				provider?.postResult(result, [fakeEntry], symbolIndex!, rootPaths, 'Editor changes');
 
 				const { nodes, edges } = buildGraphElements(symbolIndex!, graph!, result);
 				GraphPanel.postGraphData(nodes, edges);
@@ -242,8 +391,9 @@ export async function activate(context: vscode.ExtensionContext) {
 				);
 
 				// Persist impact.json
-				const report = buildImpactReport(result, symbolIndex!, graph!, workspaceRootFsPath, 'in-editor');
-				void persistImpactReport(report, workspaceRoot);
+				const folder = folderOf(filePath);
+				const report = buildImpactReport(result, symbolIndex!, graph!, folder.rootFsPath, 'in-editor');
+				void persistImpactReport(report, folder.uri);
 			} catch (err) {
 				if (myVersion !== analysisVersion) { return; }
 				console.error('[RippleCheck] In-editor blast radius error:', err);
@@ -251,25 +401,49 @@ export async function activate(context: vscode.ExtensionContext) {
 			}
 		};
 
-		// Step 6 — watch for file changes and keep graph in sync incrementally
-		registerFileWatcher(project!, symbolIndex!, graph!, workspaceRoot, context, {
-			onRipple(changeResult, filePath) {
-				console.log(
-					`[RippleCheck] Signature/removal change in ` +
-					`${filePath.split('/').pop()} (${changeResult.ripple.length} ripple(s), ` +
-					`${changeResult.removed.length} removed) — running in-editor blast radius`,
-				);
-				runInEditorAnalysis(changeResult, filePath);
-			},
-			onStagingChange() {
-				console.log('[RippleCheck] Staging area changed — running blast radius analysis');
-				void runAnalysis();
-			},
-		});
+		// Step 6 — watch each folder for file changes and keep the shared graph in sync incrementally
+		for (const folder of folders) {
+			registerFileWatcher(folder.project, symbolIndex, graph, folder.uri, context, {
+				onRipple(changeResult, filePath) {
+					console.log(
+						`[RippleCheck] Signature/removal change in ` +
+						`${filePath.split('/').pop()} (${changeResult.ripple.length} ripple(s), ` +
+						`${changeResult.removed.length} removed) — running in-editor blast radius`,
+					);
+					runInEditorAnalysis(changeResult, filePath);
+				},
+				onStagingChange() {
+					console.log(`[RippleCheck] Staging area changed in ${folder.rootFsPath} — running blast radius analysis`);
+					void runAnalysis();
+				},
+				onWorkingTreeChange() {
+					if (changeScope === 'staged') { return; }
+					console.log(`[RippleCheck] Working tree changed in ${folder.rootFsPath} — running blast radius analysis`);
+					void runAnalysis();
+				},
+			});
+		}
 
-		// Step 7 — register the on-demand "Analyze" command
+		// Step 7 — register the on-demand "Analyze" commands
+		let lastRangeSpec = 'main...HEAD';
 		context.subscriptions.push(
-			vscode.commands.registerCommand('ripplecheck.analyze', () => void runAnalysis()),
+			vscode.commands.registerCommand('ripplecheck.analyze', (scope?: LocalChangeScope) => {
+				if (scope) {
+					changeScope = scope;
+					provider?.postChangeScope(scope);
+				}
+				void runAnalysis();
+			}),
+			vscode.commands.registerCommand('ripplecheck.analyzeRange', async () => {
+				const spec = await vscode.window.showInputBox({
+					title:  'RippleCheck: Analyze Revision Range',
+					prompt: '"base..head", "base...head" (changes since the merge base) or a single commit',
+					value:  lastRangeSpec,
+				});
+				if (!spec?.trim()) { return; }
+				lastRangeSpec = spec.trim();
+				void runAnalysis(lastRangeSpec);
+			}),
 		);
 	}
 
@@ -303,6 +477,25 @@ export async function activate(context: vscode.ExtensionContext) {
 		}
 	};
 
+	// Stage the unstaged hunks of an impacted symbol; the staging-area
+	// watcher re-runs the analysis once the index changes.
+	provider.onStageHunksRequest = async hunks => {
+		const hunksByFile = new Map<string, DiffHunk[]>();
+		for (const hunk of hunks) {
+			hunksByFile.set(hunk.absoluteFilePath, [...hunksByFile.get(hunk.absoluteFilePath) ?? [], hunk]);
+		}
+		let staged = 0;
+		for (const [filePath, fileHunks] of hunksByFile) {
+			const folder = folders.find(f => isWithinRoot(filePath, f.rootFsPath));
+			if (folder) { staged += await stageHunks(folder.rootFsPath, filePath, fileHunks); }
+		}
+		if (staged === 0) {
+			void vscode.window.showWarningMessage('RippleCheck: nothing staged — the file changed since the analysis. Run Analyze again.');
+		} else {
+			void vscode.window.showInformationMessage(`RippleCheck: staged ${staged} hunk(s).`);
+		}
+	};
+
 	console.log('[RippleCheck] Blast radius + What If? pipeline wired to panel');
 	context.subscriptions.push(
 		vscode.window.registerWebviewViewProvider(GitVisualizerPanel.viewType, provider),
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import {
+	ImpactRoot,
+	REASON_EDGE_POLICY,
+	RootReason,
+	computeStagedBlastRadius,
+	traverseImpact,
+} from '../core/blast/blastRadiusEngine';
+import { addEdgeKind } from '../core/graph/graphStore';
+import { DependencyGraph, EdgeKind } from '../core/graph/types';
+import { loadProject } from '../core/indexing/projectLoader';
+import { buildReferenceGraph } from '../core/indexing/referenceWalker';
+import { extractSymbols } from '../core/indexing/symbolExtractor';
+import { SymbolIndex } from '../core/indexing/symbolIndex';
+import { commitFiles, createGitRepo, git, removeGitRepo, writeFiles } from './gitFixture';
+
+/** `from` depends on `to` through `kinds` (none: an untagged edge). */
+function link(graph: DependencyGraph, from: string, to: string, ...kinds: EdgeKind[]): void {
+	for (const [map, key, value] of [[graph.forward, from, to], [graph.reverse, to, from]] as const) {
+		let set = map.get(key);
+		if (!set) { set = new Set(); map.set(key, set); }
+		set.add(value);
+	}
+	for (const kind of kinds) { addEdgeKind(graph, from, to, kind); }
+}
+
+//   caller      ──call──────▶ api
+//   annotated   ──type──────▶ api
+//   untagged    ────────────▶ api
+//   mixed       ──type+call─▶ api
+//   outer       ──call──────▶ caller
+//   typeOuter   ──call──────▶ annotated
+function buildGraph(): DependencyGraph {
+	const graph: DependencyGraph = { forward: new Map(), reverse: new Map(), edgeKinds: new Map(), renderProps: new Map() };
+	link(graph, 'caller', 'api', 'call');
+	link(graph, 'annotated', 'api', 'type');
+	link(graph, 'untagged', 'api');
+	link(graph, 'mixed', 'api', 'type', 'call');
+	link(graph, 'outer', 'caller', 'call');
+	link(graph, 'typeOuter', 'annotated', 'call');
+	return graph;
+}
+
+const root = (reason: RootReason, propagationMode: ImpactRoot['propagationMode']): ImpactRoot =>
+	({ symbolId: 'api', propagationMode, reason });
+
+suite('blastRadiusEngine — traverseImpact edge policies', () => {
+	test('only body changes are limited to value-position edges', () => {
+		for (const [reason, policy] of Object.entries(REASON_EDGE_POLICY)) {
+			assert.strictEqual(policy, reason === 'body-change' ? 'value' : 'all', reason);
+		}
+	});
+
+	test('a body change skips type-only dependents', () => {
+		const result = traverseImpact([root('body-change', 'shallow')], buildGraph());
+		assert.deepStrictEqual([...result.directImpact].sort(), ['caller', 'mixed', 'untagged']);
+		assert.deepStrictEqual(result.indirectImpact, []);
+	});
+
+	test('a deep root with the value policy never crosses a type-only edge', () => {
+		const result = traverseImpact([root('body-change', 'deep')], buildGraph());
+		assert.deepStrictEqual([...result.directImpact].sort(), ['caller', 'mixed', 'untagged']);
+		assert.deepStrictEqual(result.indirectImpact, ['outer']);
+	});
+
+	test('a signature change reaches type-only dependents and their dependents', () => {
+		const result = traverseImpact([root('signature-ripple', 'deep')], buildGraph());
+		assert.deepStrictEqual([...result.directImpact].sort(), ['annotated', 'caller', 'mixed', 'untagged']);
+		assert.deepStrictEqual([...result.indirectImpact].sort(), ['outer', 'typeOuter']);
+		assert.deepStrictEqual(result.paths.get('typeOuter'), [['api', 'annotated', 'typeOuter']]);
+	});
+
+	test('usage is type only when every path crosses a type-only edge', () => {
+		const { usageMap } = traverseImpact([root('signature-ripple', 'deep')], buildGraph());
+		assert.strictEqual(usageMap.get('annotated'), 'type');
+		assert.strictEqual(usageMap.get('typeOuter'), 'type');
+		assert.strictEqual(usageMap.get('caller'), 'value');
+		assert.strictEqual(usageMap.get('mixed'), 'value');
+		assert.strictEqual(usageMap.get('untagged'), 'value');
+	});
+
+	test('a compatible change reaches type-only dependents but stops at depth 1', () => {
+		const result = traverseImpact([root('compatible-change', 'shallow')], buildGraph());
+		assert.deepStrictEqual([...result.directImpact].sort(), ['annotated', 'caller', 'mixed', 'untagged']);
+		assert.deepStrictEqual(result.indirectImpact, []);
+	});
+});
+
+suite('blastRadiusEngine — moved symbols', () => {
+	let repo: string;
+
+	setup(() => {
+		repo = createGitRepo();
+		commitFiles(repo, {
+			'tsconfig.json': JSON.stringify({ compilerOptions: { strict: true }, include: ['src'] }),
+			'src/a.ts':      'export function mv(n: number): number {\n    return n * 2;\n}\n\nexport const keep = 1;\n',
+			'src/b.ts':      "import { mv } from './a';\n\nexport function m(): number {\n    return mv(1);\n}\n",
+			'src/c.ts':      "import { mv } from './a';\n\nexport function stale(): number {\n    return mv(2);\n}\n",
+		}, 'initial');
+	});
+
+	teardown(() => removeGitRepo(repo));
+
+	/** Index the committed tree, then stage `files` and compute the staged blast radius. */
+	const stageAndAnalyze = async (files: Record<string, string>) => {
+		const project = loadProject(repo);
+		const index: SymbolIndex = new Map();
+		for (const sourceFile of project.getSourceFiles()) {
+			for (const entry of extractSymbols(sourceFile)) { index.set(entry.id, entry); }
+		}
+		const graph = buildReferenceGraph(project, index, repo);
+		writeFiles(repo, files);
+		git(repo, 'add', '-A');
+		return computeStagedBlastRadius(project, index, graph, repo);
+	};
+
+	test('a dependent updated to import from a new file that sorts after it is not broken', async () => {
+		const result = await stageAndAnalyze({
+			'src/a.ts': 'export const keep = 1;\n',
+			'src/d.ts': 'export function mv(n: number): number {\n    return n * 2;\n}\n',
+			'src/b.ts': "import { mv } from './d';\n\nexport function m(): number {\n    return mv(1);\n}\n",
+		});
+		const moved = result.roots.find(r => r.symbolId === `${repo}/src/a.ts#mv`);
+		assert.strictEqual(moved?.reason, 'moved');
+		assert.strictEqual(moved?.movedTo, `${repo}/src/d.ts#mv`);
+		assert.deepStrictEqual(moved?.brokenDependents, [`${repo}/src/c.ts#stale`]);
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { getStagedDiffHunks } from '../core/git/diffParser';
+import { commitFiles, createGitRepo, git, removeGitRepo, writeFiles } from './gitFixture';
+
+const BEFORE = ['line 1', 'line 2', 'line 3', 'line 4', 'line 5', 'line 6', ''].join('\n');
+
+suite('diffParser — staged hunks', () => {
+	let repo: string;
+
+	setup(() => {
+		repo = createGitRepo();
+		commitFiles(repo, { 'a.ts': BEFORE }, 'initial');
+	});
+
+	teardown(() => removeGitRepo(repo));
+
+	const stageContent = async (content: string) => {
+		writeFiles(repo, { 'a.ts': content });
+		git(repo, 'add', '-A');
+		return getStagedDiffHunks(repo);
+	};
+
+	test('a one-line change omits the counts, which default to 1', async () => {
+		const hunks = await stageContent(BEFORE.replace('line 3', 'line three'));
+		assert.deepStrictEqual(hunks, [{
+			absoluteFilePath: `${repo}/a.ts`,
+			oldStartLine: 3, oldLineCount: 1,
+			newStartLine: 3, newLineCount: 1,
+		}]);
+	});
+
+	test('a pure deletion has a new-side count of 0 after the preceding line', async () => {
+		const hunks = await stageContent(BEFORE.replace('line 3\nline 4\n', ''));
+		assert.deepStrictEqual(hunks.map(h => [h.oldStartLine, h.oldLineCount, h.newStartLine, h.newLineCount]), [[3, 2, 2, 0]]);
+	});
+
+	test('separate edits produce one hunk each', async () => {
+		const hunks = await stageContent(BEFORE.replace('line 1', 'line one').replace('line 5', 'added\nline 5'));
+		assert.deepStrictEqual(hunks.map(h => [h.newStartLine, h.newLineCount]), [[1, 1], [5, 1]]);
+	});
+
+	test('unstaged edits are not reported', async () => {
+		writeFiles(repo, { 'a.ts': BEFORE.replace('line 2', 'line two') });
+		assert.deepStrictEqual(await getStagedDiffHunks(repo), []);
+	});
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { resolveRevisionRange } from '../core/git/diffSource';
+import { commitFiles, createGitRepo, git, removeGitRepo } from './gitFixture';
+
+suite('diffSource — resolveRevisionRange', () => {
+	let repo: string;
+	let root: string;     // main:    root
+	let mainTip: string;  // main:    root → mainTip
+	let featTip: string;  // feature: root → feat1 → featTip
+
+	suiteSetup(() => {
+		repo    = createGitRepo();
+		root    = commitFiles(repo, { 'a.ts': 'export const a = 1;\n' }, 'root');
+		git(repo, 'checkout', '-q', '-b', 'feature');
+		commitFiles(repo, { 'b.ts': 'export const b = 1;\n' }, 'feat1');
+		featTip = commitFiles(repo, { 'b.ts': 'export const b = 2;\n' }, 'feat2');
+		git(repo, 'checkout', '-q', 'main');
+		mainTip = commitFiles(repo, { 'a.ts': 'export const a = 2;\n' }, 'main2');
+	});
+
+	suiteTeardown(() => removeGitRepo(repo));
+
+	test('base..head compares the two revisions directly', async () => {
+		assert.deepStrictEqual(
+			await resolveRevisionRange(repo, 'main..feature'),
+			{ kind: 'range', base: mainTip, head: featTip, label: 'main..feature' },
+		);
+	});
+
+	test('base...head compares head with the merge base', async () => {
+		const range = await resolveRevisionRange(repo, 'main...feature');
+		assert.strictEqual(range.base, root);
+		assert.strictEqual(range.head, featTip);
+	});
+
+	test('a single revision is the changes of that commit', async () => {
+		const range = await resolveRevisionRange(repo, ' feature ');
+		assert.strictEqual(range.base, git(repo, 'rev-parse', 'feature^'));
+		assert.strictEqual(range.head, featTip);
+		assert.strictEqual(range.label, 'feature');
+	});
+
+	test('an empty side stands for HEAD', async () => {
+		const range = await resolveRevisionRange(repo, 'feature..');
+		assert.strictEqual(range.base, featTip);
+		assert.strictEqual(range.head, mainTip);
+	});
+
+	test('an unknown revision is rejected by name', async () => {
+		await assert.rejects(resolveRevisionRange(repo, 'nope..main'), /Unknown revision 'nope'/);
+	});
+
+	test('branches without shared history are rejected', async () => {
+		git(repo, 'checkout', '-q', '--orphan', 'unrelated');
+		commitFiles(repo, { 'c.ts': 'export const c = 1;\n' }, 'unrelated');
+		git(repo, 'checkout', '-q', 'main');
+		await assert.rejects(resolveRevisionRange(repo, 'main...unrelated'), /have no common ancestor/);
+	});
+});
@@ -0,0 +1,41 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+/** Run git in `repo` and return its trimmed output. */
+export function git(repo: string, ...args: string[]): string {
+	return execFileSync('git', args, { cwd: repo, encoding: 'utf8' }).trim();
+}
+
+/** Write `files` (path relative to `repo` → content) into the working tree. */
+export function writeFiles(repo: string, files: Record<string, string>): void {
+	for (const [rel, content] of Object.entries(files)) {
+		const abs = path.join(repo, rel);
+		fs.mkdirSync(path.dirname(abs), { recursive: true });
+		fs.writeFileSync(abs, content);
+	}
+}
+
+/** Write `files`, stage everything and commit it; returns the new commit's hash. */
+export function commitFiles(repo: string, files: Record<string, string>, message: string): string {
+	writeFiles(repo, files);
+	git(repo, 'add', '-A');
+	git(repo, 'commit', '-q', '-m', message);
+	return git(repo, 'rev-parse', 'HEAD');
+}
+
+/** A fresh repository in a temp directory, on branch `main`, with no commits. */
+export function createGitRepo(): string {
+	const repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ripplecheck-test-')));
+	git(repo, 'init', '-q');
+	git(repo, 'symbolic-ref', 'HEAD', 'refs/heads/main');
+	git(repo, 'config', 'user.email', 'test@example.com');
+	git(repo, 'config', 'user.name', 'RippleCheck Test');
+	git(repo, 'config', 'commit.gpgsign', 'false');
+	return repo;
+}
+
+export function removeGitRepo(repo: string): void {
+	fs.rmSync(repo, { recursive: true, force: true });
+}
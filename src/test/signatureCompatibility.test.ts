@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { Project } from 'ts-morph';
+import { classifySignatureChanges } from '../core/analysis/signatureCompatibility';
+import { extractSymbols } from '../core/indexing/symbolExtractor';
+import { SymbolIndex } from '../core/indexing/symbolIndex';
+
+suite('signatureCompatibility — inferred types from other changed files', () => {
+	const B_BEFORE = "import { base } from './a';\n\nexport function g() { return base(); }\n\nexport function h(): number { return 1; }\n";
+	const B_AFTER  = "import { base } from './a';\n\nexport function g() { return base(); }\n\nexport function h(): string { return ''; }\n";
+
+	/** `a.ts#base` went from returning a number to a string; classify `b.ts` against its previous text. */
+	const classify = (names: string[], otherFilesChanged: boolean) => {
+		const project = new Project({ useInMemoryFileSystem: true, compilerOptions: { strict: true } });
+		project.createSourceFile('/src/a.ts', "export function base() { return ''; }\n");
+		const sourceFile = project.createSourceFile('/src/b.ts', B_AFTER);
+		const index: SymbolIndex = new Map(extractSymbols(sourceFile).map(e => [e.id, e]));
+		const ids = names.map(name => `/src/b.ts#${name}`);
+		const result = classifySignatureChanges(project, '/src/b.ts', B_BEFORE, ids, index, otherFilesChanged);
+		return names.map((name, i) => result.get(ids[i]));
+	};
+
+	test('an inferred return type is not compared against the new upstream file', () => {
+		assert.deepStrictEqual(classify(['g'], true), ['potentially-breaking']);
+	});
+
+	test('explicitly typed declarations are still compared', () => {
+		assert.deepStrictEqual(classify(['h'], true), ['breaking']);
+	});
+
+	test('a file changed on its own is compared in full', () => {
+		assert.deepStrictEqual(classify(['g', 'h'], false), ['compatible', 'breaking']);
+	});
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { diffSignatures } from '../core/analysis/signatureDiff';
+
+const changes = (before: string, after: string) => diffSignatures('function', before, after).changes;
+
+suite('signatureDiff — parameters', () => {
+	test('an added parameter is described with its kind', () => {
+		assert.deepStrictEqual(changes('<>(a:number):void', '<>(a:number,b?:string):void'), ['optional param `b` added']);
+		assert.deepStrictEqual(changes('<>(a:number):void', '<>(a:number,...rest:string[]):void'), ['rest param `rest` added']);
+	});
+
+	test('a removed parameter is described as it was', () => {
+		assert.deepStrictEqual(changes('<>(a:number,b:string):void', '<>(a:number):void'), ['required param `b` removed']);
+	});
+
+	test('a parameter that became required or optional', () => {
+		assert.deepStrictEqual(changes('<>(opts?:Options):void', '<>(opts:Options):void'), ['param `opts` became required']);
+		assert.deepStrictEqual(changes('<>(opts:Options):void', '<>(opts?:Options):void'), ['param `opts` became optional']);
+	});
+
+	test('a renamed parameter and a changed type are reported separately', () => {
+		assert.deepStrictEqual(
+			changes('<>(id:string):void', '<>(userId:number):void'),
+			['param `id` renamed to `userId`', 'param `userId` type `string` → `number`'],
+		);
+	});
+
+	test('a parameter that became a rest parameter', () => {
+		assert.deepStrictEqual(changes('<>(ids:string[]):void', '<>(...ids:string[]):void'), ['param `ids` became a rest parameter']);
+	});
+
+	test('nested commas and colons stay inside their parameter', () => {
+		assert.deepStrictEqual(
+			changes('<>(map:Map<string,{a:number}>):void', '<>(map:Map<string,{a:string}>):void'),
+			['param `map` type `Map<string,{a:number}>` → `Map<string,{a:string}>`'],
+		);
+	});
+
+	test('parameter changes are listed between type-parameter and return-type changes', () => {
+		assert.deepStrictEqual(
+			changes('<>(a:number):void', '<T>(a:T):T'),
+			['type parameters `<>` → `<T>`', 'param `a` type `number` → `T`', 'return type `void` → `T`'],
+		);
+	});
+});
+
+suite('signatureDiff — interface methods', () => {
+	test('an optional method that became required is described before its parameter changes', () => {
+		assert.deepStrictEqual(
+			diffSignatures('method', '?<>(a:number):void', '<>(a:string):void').changes,
+			['became required', 'param `a` type `number` → `string`'],
+		);
+	});
+});
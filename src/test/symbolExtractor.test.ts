@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { Project } from 'ts-morph';
+import { detectSignatureChanges } from '../core/analysis/signatureAnalyzer';
+import { SymbolEntry, extractSymbols, isOptionalMember } from '../core/indexing/symbolExtractor';
+import { SymbolIndex } from '../core/indexing/symbolIndex';
+
+/** The symbols of `text`, by qualified name, extracted from an in-memory `/src/<fileName>`. */
+function extract(text: string, fileName = 'a.ts'): Map<string, SymbolEntry> {
+	const project = new Project({ useInMemoryFileSystem: true, compilerOptions: { strict: true, allowJs: true } });
+	const sourceFile = project.createSourceFile(`/src/${fileName}`, text);
+	return new Map(extractSymbols(sourceFile).map(e => [e.name, e]));
+}
+
+/** Names of the symbols whose signature changed from `before` to `after`. */
+function signatureRoots(before: string, after: string, fileName = 'a.ts'): string[] {
+	const byId = (text: string): SymbolIndex => new Map([...extract(text, fileName).values()].map(e => [e.id, e]));
+	return detectSignatureChanges(`/src/${fileName}`, byId(before), byId(after)).ripple
+		.map(id => id.slice(id.indexOf('#') + 1));
+}
+
+suite('symbolExtractor — interface method signatures', () => {
+	test('are signed like class methods', () => {
+		const symbols = extract([
+			'export interface Repo { find<T extends string>(id: T, opts?: number): boolean; }',
+			'export class Impl { find<T extends string>(id: T, opts?: number): boolean { return true; } }',
+		].join('\n'));
+		assert.strictEqual(symbols.get('Repo.find')!.signature, symbols.get('Impl.find')!.signature);
+	});
+
+	test('keep overload order, which decides overload resolution', () => {
+		const before = extract('export interface Repo { find(id: string): string; find(id: number): number; }');
+		const after  = extract('export interface Repo { find(id: number): number; find(id: string): string; }');
+		assert.notStrictEqual(before.get('Repo.find')!.signatureHash, after.get('Repo.find')!.signatureHash);
+	});
+
+	test('mark optional methods', () => {
+		const symbols = extract('export interface Repo { find?(id: string): string; save(): void; }');
+		assert.strictEqual(isOptionalMember(symbols.get('Repo.find')!), true);
+		assert.strictEqual(isOptionalMember(symbols.get('Repo.save')!), false);
+	});
+});
+
+suite('symbolExtractor — object literals', () => {
+	const API = (getParam: string, port: string) =>
+		`export const api = {\n    get(id: ${getParam}) { return id; },\n    port: ${port},\n};\n`;
+
+	test('a changed member is a root on its own, not the literal', () => {
+		assert.deepStrictEqual(signatureRoots(API('string', '3000'), API('number', '3000')), ['api.get']);
+	});
+
+	test('a member that is not indexed is part of the literal signature', () => {
+		assert.deepStrictEqual(signatureRoots(API('string', '3000'), API('string', "'3000'")), ['api']);
+	});
+
+	test('CommonJS exports are signed the same way', () => {
+		const before = 'module.exports = { config: { load(path) { return path; } } };\n';
+		const after  = 'module.exports = { config: { load(path, opts) { return path; } } };\n';
+		assert.deepStrictEqual(signatureRoots(before, after, 'a.js'), ['config.load']);
+	});
+});
+
+suite('symbolExtractor — JSDoc signatures', () => {
+	test('a @template constraint is signed like a TypeScript one', () => {
+		const js = extract('/**\n * @template {string} T\n * @param {T} id\n * @returns {T}\n */\nexport function find(id) { return id; }\n', 'a.js');
+		const ts = extract('export function find<T extends string>(id: T): T { return id; }\n');
+		assert.strictEqual(js.get('find')!.signature, ts.get('find')!.signature);
+	});
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { SymbolEntry, SymbolKind, moduleSymbolId } from '../core/indexing/symbolExtractor';
+import {
+	SymbolIndex,
+	diffDeletionToCharPos,
+	findSymbolsContainingPos,
+	findSymbolsTouchedByHunk,
+} from '../core/indexing/symbolIndex';
+
+const FILE = '/repo/src/a.ts';
+
+// line 1  function a() {
+// line 2      return 1;
+// line 3  }
+// line 4  run();
+// line 5  function b() {}
+const SOURCE = ['function a() {', '    return 1;', '}', 'run();', 'function b() {}', ''].join('\n');
+
+function entry(name: string, kind: SymbolKind, text: string): SymbolEntry {
+	const startPos = name === '<module>' ? 0 : SOURCE.indexOf(text);
+	const endPos   = name === '<module>' ? SOURCE.length : startPos + text.length;
+	return {
+		id: `${FILE}#${name}`, name, kind, filePath: FILE,
+		startLine: SOURCE.slice(0, startPos).split('\n').length,
+		endLine: SOURCE.slice(0, endPos).split('\n').length,
+		startPos, endPos, isExported: false, parentId: null,
+		signature: '', signatureHash: '', bodyHash: '',
+	};
+}
+
+function buildIndex(withModule = true): SymbolIndex {
+	const entries = [
+		entry('a', 'function', 'function a() {\n    return 1;\n}'),
+		entry('b', 'function', 'function b() {}'),
+		...withModule ? [entry('<module>', 'module', '')] : [],
+	];
+	return new Map(entries.map(e => [e.id, e]));
+}
+
+const ids = (entries: SymbolEntry[]) => entries.map(e => e.name).sort();
+
+suite('symbolIndex — diff positions', () => {
+	test('diffDeletionToCharPos is the start of the line after afterLine', () => {
+		assert.strictEqual(diffDeletionToCharPos(SOURCE, 0), 0);
+		assert.strictEqual(diffDeletionToCharPos(SOURCE, 1), SOURCE.indexOf('    return'));
+		assert.strictEqual(diffDeletionToCharPos(SOURCE, 3), SOURCE.indexOf('run();'));
+	});
+
+	test('diffDeletionToCharPos clamps to the end of the file', () => {
+		assert.strictEqual(diffDeletionToCharPos(SOURCE, 5), SOURCE.length);
+		assert.strictEqual(diffDeletionToCharPos(SOURCE, 99), SOURCE.length);
+	});
+
+	test('findSymbolsContainingPos only returns symbols enclosing the position strictly', () => {
+		const index = buildIndex();
+		assert.deepStrictEqual(ids(findSymbolsContainingPos(index, FILE, SOURCE.indexOf('    return'))), ['<module>', 'a']);
+		// The start of `function b` — `b` lost nothing there.
+		assert.deepStrictEqual(ids(findSymbolsContainingPos(index, FILE, SOURCE.indexOf('function b'))), ['<module>']);
+		assert.deepStrictEqual(ids(findSymbolsContainingPos(index, FILE, 0)), []);
+		assert.deepStrictEqual(ids(findSymbolsContainingPos(index, '/repo/src/other.ts', 20)), []);
+	});
+});
+
+suite('symbolIndex — findSymbolsTouchedByHunk', () => {
+	test('a hunk with lines returns every symbol overlapping them', () => {
+		const index = buildIndex();
+		assert.deepStrictEqual(ids(findSymbolsTouchedByHunk(index, FILE, SOURCE, 2, 1)), ['<module>', 'a']);
+		assert.deepStrictEqual(ids(findSymbolsTouchedByHunk(index, FILE, SOURCE, 3, 3)), ['<module>', 'a', 'b']);
+	});
+
+	test('a pure deletion inside a body returns the enclosing symbols', () => {
+		assert.deepStrictEqual(ids(findSymbolsTouchedByHunk(buildIndex(), FILE, SOURCE, 1, 0)), ['<module>', 'a']);
+	});
+
+	test('a pure deletion at the top or bottom of the file falls back to the module symbol', () => {
+		const index = buildIndex();
+		assert.deepStrictEqual(ids(findSymbolsTouchedByHunk(index, FILE, SOURCE, 0, 0)), ['<module>']);
+		assert.deepStrictEqual(ids(findSymbolsTouchedByHunk(index, FILE, SOURCE, 5, 0)), ['<module>']);
+		assert.strictEqual(findSymbolsTouchedByHunk(index, FILE, SOURCE, 0, 0)[0].id, moduleSymbolId(FILE));
+	});
+
+	test('without a module symbol a deletion outside every declaration touches nothing', () => {
+		assert.deepStrictEqual(findSymbolsTouchedByHunk(buildIndex(false), FILE, SOURCE, 0, 0), []);
+	});
+});
@@ -266,6 +266,20 @@ export class GraphPanel {
       background:  var(--vscode-editor-inactiveSelectionBackground, #555);
       border: 1px solid var(--vscode-descriptionForeground);
     }
+    .leg-line {
+      width:       14px;
+      height:      2px;
+      flex-shrink: 0;
+    }
+    .leg-line.k-call       { background: #4fc3f7; }
+    .leg-line.k-new        { background: #81c784; }
+    .leg-line.k-type       { background: #9e9e9e; }
+    .leg-line.k-extends    { background: #ba68c8; }
+    .leg-line.k-implements { background: #f06292; }
+    .leg-line.k-override   { background: #ce93d8; }
+    .leg-line.k-reexport   { background: #ffb74d; }
+    .leg-line.k-import     { background: #4db6ac; }
+    .leg-line.k-render     { background: #aed581; }
 
     /* ─── Empty state ────────────────────────────────────────── */
     #empty-state {
@@ -309,6 +323,15 @@ export class GraphPanel {
     <span class="leg-item"><span class="leg-dot direct"></span>Direct impact</span>
     <span class="leg-item"><span class="leg-dot indirect"></span>Indirect impact</span>
     <span class="leg-item"><span class="leg-dot other"></span>Unaffected</span>
+    <span class="leg-item"><span class="leg-line k-call"></span>Calls</span>
+    <span class="leg-item"><span class="leg-line k-new"></span>Instantiates</span>
+    <span class="leg-item"><span class="leg-line k-type"></span>Uses type</span>
+    <span class="leg-item"><span class="leg-line k-extends"></span>Extends</span>
+    <span class="leg-item"><span class="leg-line k-implements"></span>Implements</span>
+    <span class="leg-item"><span class="leg-line k-override"></span>Overrides</span>
+    <span class="leg-item"><span class="leg-line k-reexport"></span>Re-exports</span>
+    <span class="leg-item"><span class="leg-line k-import"></span>Loads module</span>
+    <span class="leg-item"><span class="leg-line k-render"></span>Renders</span>
   </div>
 
 </div>
@@ -377,6 +400,17 @@ export class GraphPanel {
         'opacity':             0.6,
       },
     },
+    // Edge colour by kind (see graphElements.EDGE_KIND_ORDER); plain
+    // references keep the default grey.
+    { selector: 'edge[kind = "call"]',       style: { 'line-color': '#4fc3f7', 'target-arrow-color': '#4fc3f7' } },
+    { selector: 'edge[kind = "new"]',        style: { 'line-color': '#81c784', 'target-arrow-color': '#81c784' } },
+    { selector: 'edge[kind = "type"]',       style: { 'line-color': '#9e9e9e', 'target-arrow-color': '#9e9e9e', 'line-style': 'dashed' } },
+    { selector: 'edge[kind = "extends"]',    style: { 'line-color': '#ba68c8', 'target-arrow-color': '#ba68c8', 'width': 1.8 } },
+    { selector: 'edge[kind = "implements"]', style: { 'line-color': '#f06292', 'target-arrow-color': '#f06292', 'line-style': 'dashed' } },
+    { selector: 'edge[kind = "override"]',   style: { 'line-color': '#ce93d8', 'target-arrow-color': '#ce93d8', 'line-style': 'dashed' } },
+    { selector: 'edge[kind = "reexport"]',   style: { 'line-color': '#ffb74d', 'target-arrow-color': '#ffb74d', 'line-style': 'dotted' } },
+    { selector: 'edge[kind = "import"]',     style: { 'line-color': '#4db6ac', 'target-arrow-color': '#4db6ac', 'line-style': 'dotted' } },
+    { selector: 'edge[kind = "render"]',     style: { 'line-color': '#aed581', 'target-arrow-color': '#aed581', 'width': 1.8 } },
     {
       selector: 'node:selected',
       style: { 'border-width': '3px', 'border-color': '#007fd4' },
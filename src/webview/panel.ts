@@ -2,7 +2,10 @@ import * as vscode from 'vscode';
 import { GraphPanel } from './graphPanel';
 import { BlastRadiusResult } from '../core/blast/blastRadiusEngine';
 import { StagedFileEntry } from '../core/git/stagedSnapshot';
+import { LocalChangeScope } from '../core/git/diffSource';
+import { DiffHunk } from '../core/git/diffParser';
 import { SymbolIndex } from '../core/indexing/symbolIndex';
+import { displaySymbolName } from '../core/indexing/symbolExtractor';
 import { IntentDescriptor, IntentParseError } from '../core/intent/types';
 import { PredictiveBlastRadiusResult } from '../core/intent/predictiveEngine';
 
@@ -19,6 +22,7 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
     private _lastWhatIfIntent?: unknown;
     private _lastLlmSummary?: string;
     private _lastStatus?: string;
+    private _lastChangeScope?: LocalChangeScope;
 
     /**
      * Called when the user submits a "What if?" prompt.
@@ -30,6 +34,13 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
         token: vscode.CancellationToken,
     ) => Promise<void>;
 
+    /**
+     * Called when the user clicks "Stage" on an impacted symbol with
+     * unstaged edits.  Extension.ts stages the hunks; the staging-area
+     * watcher then re-runs the analysis.
+     */
+    public onStageHunksRequest?: (hunks: DiffHunk[]) => Promise<void>;
+
     constructor(private readonly extensionUri: vscode.Uri) { }
 
     public resolveWebviewView(
@@ -52,7 +63,10 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
                     this._replayState();
                     break;
                 case 'analyze':
-                    vscode.commands.executeCommand('ripplecheck.analyze');
+                    vscode.commands.executeCommand('ripplecheck.analyze', message.scope as LocalChangeScope | undefined);
+                    break;
+                case 'analyzeRange':
+                    vscode.commands.executeCommand('ripplecheck.analyzeRange');
                     break;
                 case 'openFile':
                     vscode.workspace.openTextDocument(message.path)
@@ -62,6 +76,10 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
                 case 'openGraph':
                     GraphPanel.createOrShow(this.extensionUri);
                     break;
+                case 'stageHunks':
+                    this.onStageHunksRequest?.(message.hunks as DiffHunk[])
+                        .catch((err: unknown) => this.postError(String(err)));
+                    break;
                 case 'graphToggle':
                     GraphPanel.postToggle(message.mode as 'full' | 'session');
                     break;
@@ -96,6 +114,12 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
         this._view?.webview.postMessage({ type: 'analysisStart' });
     }
 
+    /** Called from extension.ts when the Staged / Unstaged / Both selection changes. */
+    public postChangeScope(scope: LocalChangeScope): void {
+        this._lastChangeScope = scope;
+        this._view?.webview.postMessage({ type: 'changeScope', scope });
+    }
+
     /** Called from extension.ts to push a fatal analysis error to the webview. */
     public postError(message: string, source: 'analyse' | 'whatIf' = 'analyse'): void {
         this._view?.webview.postMessage({ type: 'error', source, message });
@@ -104,28 +128,37 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
     /**
      * Called from extension.ts after computeStagedBlastRadius completes.
      * Serialises Maps to plain objects before posting (JSON cannot handle Map).
+     * `sourceLabel` names what was analysed — staged changes, a revision
+     * range, editor changes — above the changed-file list.
      */
     public postResult(
         result: BlastRadiusResult,
         stagedFiles: StagedFileEntry[],
         symbolIndex: SymbolIndex,
-        workspaceRootPath: string,
+        workspaceRootPaths: string[],
+        sourceLabel: string,
     ): void {
         if (!this._view) { return; }
 
         // Normalise and ensure trailing slash so startsWith strips cleanly.
-        const normalRoot = workspaceRootPath.replace(/\\/g, '/').replace(/\/?$/, '/');
+        const normalRoots = workspaceRootPaths.map(r => r.replace(/\\/g, '/').replace(/\/?$/, '/'));
 
+        // With several workspace folders, keep the folder name in front of the
+        // relative path so files from different folders stay distinguishable.
         const toRelPath = (absPath: string): string => {
             const p = absPath.replace(/\\/g, '/');
-            return p.startsWith(normalRoot) ? p.slice(normalRoot.length) : p;
+            const root = normalRoots.find(r => p.startsWith(r));
+            if (!root) { return p; }
+            const rel = p.slice(root.length);
+            return normalRoots.length > 1 ? `${root.slice(0, -1).split('/').pop()}/${rel}` : rel;
         };
 
         // Parse a raw symbol ID (`absFilePath#symbolName`) into display parts.
         const parseSymbolId = (id: string): { name: string; filePath: string } => {
             const hash = id.indexOf('#');
             if (hash === -1) { return { name: id, filePath: '' }; }
-            return { name: id.slice(hash + 1), filePath: toRelPath(id.slice(0, hash)) };
+            const filePath = toRelPath(id.slice(0, hash));
+            return { name: displaySymbolName(id.slice(hash + 1), filePath), filePath };
         };
 
         // Serialise a symbol ID to a plain object the webview can render.
@@ -135,32 +168,52 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
                 const { name, filePath } = parseSymbolId(id);
                 return { id, name, filePath, kind: 'unknown', startLine: 0 };
             }
-            return { id, name: e.name, filePath: toRelPath(e.filePath), kind: e.kind, startLine: e.startLine };
+            const filePath = toRelPath(e.filePath);
+            return { id, name: displaySymbolName(e.name, filePath), filePath, kind: e.kind, startLine: e.startLine };
         };
 
         // Build a flat name-lookup table for every symbol referenced in any path
-        // so the webview can display human-readable path traces.
+        // or dispatch list so the webview can display human-readable names.
         const symbolNameMap: Record<string, string> = {};
-        for (const pathList of result.paths.values()) {
-            for (const path of pathList) {
-                for (const sid of path) {
-                    if (!symbolNameMap[sid]) {
-                        const sym = symbolIndex.get(sid);
-                        symbolNameMap[sid] = sym ? sym.name : sid;
-                    }
-                }
+        const referencedIds = [
+            ...[...result.paths.values()].flat(2),
+            ...[...result.dispatchTargets.values()].flat(),
+        ];
+        for (const sid of referencedIds) {
+            if (!symbolNameMap[sid]) {
+                const sym = symbolIndex.get(sid);
+                symbolNameMap[sid] = sym ? displaySymbolName(sym.name, toRelPath(sym.filePath)) : sid;
             }
         }
 
         const msg = {
             type: 'analysisResult',
             roots: result.roots,
+            changedSymbols: result.roots.map(r => ({
+                ...serialiseSymbol(r.symbolId),
+                reason: r.reason,
+                compatibility: r.compatibility,
+                signatureDiff: r.signatureDiff,
+                movedTo: r.movedTo ? serialiseSymbol(r.movedTo) : undefined,
+            })),
             directImpact: result.directImpact.map(serialiseSymbol),
             indirectImpact: result.indirectImpact.map(serialiseSymbol),
             depthMap: Object.fromEntries(result.depthMap),
             paths: Object.fromEntries(result.paths),
+            pathKinds: Object.fromEntries(result.pathKinds),
+            usageMap: Object.fromEntries(result.usageMap),
+            renderedProps: Object.fromEntries(result.renderedProps),
+            dispatchTargets: Object.fromEntries(result.dispatchTargets),
+            compileVerification: result.compileVerification
+                ? Object.fromEntries([...result.compileVerification].map(([id, v]) => [id, {
+                    verdict: v.verdict,
+                    errors:  v.errors.map(e => ({ ...e, filePath: toRelPath(e.filePath) })),
+                }]))
+                : undefined,
+            unstagedEdits: result.unstagedEdits ? Object.fromEntries(result.unstagedEdits) : undefined,
             symbolNameMap,
             stagedFiles,
+            sourceLabel,
         };
 
         this._lastAnalysisResult = msg;
@@ -197,6 +250,10 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
             paths:          Object.fromEntries(
                 Array.from(result.paths.entries()).map(([k, v]) => [k, v]),
             ),
+            pathKinds:      Object.fromEntries(result.pathKinds),
+            usageMap:       Object.fromEntries(result.usageMap),
+            renderedProps:  Object.fromEntries(result.renderedProps),
+            dispatchTargets: Object.fromEntries(result.dispatchTargets),
         };
         this._lastPredictedResult = msg;
         this._lastStatus = 'done';
@@ -214,6 +271,11 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
         if (!this._view) { return; }
         console.log('[RippleCheck] Sidebar panel ready — replaying cached state');
 
+        // Replay the selected change scope
+        if (this._lastChangeScope) {
+            this._view.webview.postMessage({ type: 'changeScope', scope: this._lastChangeScope });
+        }
+
         // Replay analysis result (staged or in-editor)
         if (this._lastAnalysisResult) {
             this._view.webview.postMessage(this._lastAnalysisResult);
@@ -384,6 +446,26 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
 
     .sec-inner { padding: 6px 10px 10px; }
 
+    /* ─── Change scope selector ───────────────────────── */
+    #scope-bar {
+      display:       flex;
+      align-items:   center;
+      gap:           4px;
+      padding:       6px 10px;
+      border-bottom: 1px solid var(--vscode-panel-border, #444);
+    }
+    #scope-bar .spacer { flex: 1; }
+
+    .source-label {
+      font-weight:    400;
+      text-transform: none;
+      letter-spacing: 0;
+      color:          var(--vscode-descriptionForeground);
+      overflow:       hidden;
+      text-overflow:  ellipsis;
+      white-space:    nowrap;
+    }
+
     /* ─── Badge ───────────────────────────────────────── */
     .badge {
       background:   var(--vscode-badge-background);
@@ -520,6 +602,43 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
       display:     none;
     }
     .impact-row.expanded .path-trace { display: block; }
+    .reason-tag.usage-type {
+      font-style:   italic;
+    }
+    .compat-tag {
+      font-size:    9px;
+      border-radius: 2px;
+      padding:      1px 4px;
+      flex-shrink:  0;
+      border:       1px solid currentColor;
+    }
+    .compat-tag.compat-breaking             { color: var(--vscode-errorForeground, #f14c4c); }
+    .compat-tag.compat-potentially-breaking { color: var(--vscode-editorWarning-foreground, #cca700); }
+    .compat-tag.compat-compatible           { color: var(--vscode-testing-iconPassed, #73c991); }
+    .compat-tag.compile-breaks              { color: var(--vscode-errorForeground, #f14c4c); }
+    .compat-tag.compile-compiles            { color: var(--vscode-testing-iconPassed, #73c991); }
+    .compat-tag.unstaged-edits              { color: var(--vscode-editorWarning-foreground, #cca700); }
+    .unstaged-row {
+      display:     flex;
+      align-items: center;
+      gap:         6px;
+      margin:      2px 0 0 10px;
+      font-size:   10px;
+      color:       var(--vscode-descriptionForeground);
+    }
+    .sig-diff, .compile-errors {
+      font-size:   10px;
+      margin:      2px 0 0 10px;
+      padding:     0;
+      list-style:  none;
+      color:       var(--vscode-descriptionForeground);
+    }
+    .sig-diff li::before, .compile-errors li::before { content: '\\2022  '; }
+    .edge-kind {
+      font-size:    9px;
+      font-style:   italic;
+      opacity:      0.8;
+    }
 
     /* ─── Blast radius fills space when open; graph stays at bottom ── */
     #blast-radius-section[open] {
@@ -633,10 +752,20 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
     <button class="rc-btn" id="analyze-btn">&#9654; Analyze</button>
   </div>
 
+  <!-- ══ CHANGE SCOPE ══════════════════════════════════ -->
+  <div id="scope-bar">
+    <button class="rc-btn-sm scope-btn active" data-scope="staged" title="Changes in the index">Staged</button>
+    <button class="rc-btn-sm scope-btn" data-scope="unstaged" title="Edits on disk that are not staged">Unstaged</button>
+    <button class="rc-btn-sm scope-btn" data-scope="both" title="Everything changed since the last commit">Both</button>
+    <span class="spacer"></span>
+    <button class="rc-btn-sm" id="range-btn" title="Analyze the changes between two revisions">Range&#8230;</button>
+  </div>
+
   <!-- ══ CHANGED FILES ═════════════════════════════════ -->
   <details class="rc-coll rc-section" id="changed-files-section" open>
     <summary>
       Changed Files
+      <span class="source-label" id="changed-source"></span>
       <span class="badge" id="changed-count">0</span>
     </summary>
     <div class="sec-inner" id="changed-files-list">
@@ -649,6 +778,16 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
     <summary>Blast Radius</summary>
     <div class="sec-inner">
 
+      <details class="rc-coll" id="changed-symbols-section" open>
+        <summary>
+          Changed Symbols
+          <span class="badge" id="changed-symbols-count">0</span>
+        </summary>
+        <div class="sec-inner" id="changed-symbols-list">
+          <div class="empty-state">&#8212;</div>
+        </div>
+      </details>
+
       <details class="rc-coll" id="direct-section" open>
         <summary>
           Direct Impact
@@ -712,6 +851,23 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
     document.getElementById('analyze-btn').addEventListener('click', function() {
       vscode.postMessage({ command: 'analyze' });
     });
+    document.getElementById('range-btn').addEventListener('click', function() {
+      vscode.postMessage({ command: 'analyzeRange' });
+    });
+
+    // ── Staged / Unstaged / Both selector ────────────────────────────────
+    document.querySelectorAll('.scope-btn').forEach(function(btn) {
+      btn.addEventListener('click', function() {
+        setChangeScope(btn.dataset.scope);
+        vscode.postMessage({ command: 'analyze', scope: btn.dataset.scope });
+      });
+    });
+
+    function setChangeScope(scope) {
+      document.querySelectorAll('.scope-btn').forEach(function(btn) {
+        btn.classList.toggle('active', btn.dataset.scope === scope);
+      });
+    }
 
     // ── Open Graph button ────────────────────────────────────────────────
     document.getElementById('open-graph-btn').addEventListener('click', function() {
@@ -739,12 +895,19 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
       var msg = event.data;
       switch (msg.type) {
 
+        case 'changeScope':
+          setChangeScope(msg.scope);
+          break;
+
         case 'analysisStart':
           setStatus('analyzing');
+          setText('changed-source', '');
           setText('changed-count', '0');
+          setText('changed-symbols-count', '0');
           setText('direct-count',  '0');
           setText('indirect-count','0');
           setHtml('changed-files-list', '<div class="empty-state">Analyzing\\u2026</div>');
+          setHtml('changed-symbols-list', '<div class="empty-state">\\u2014</div>');
           setHtml('direct-list',        '<div class="empty-state">\\u2014</div>');
           setHtml('indirect-list',      '<div class="empty-state">\\u2014</div>');
           document.querySelectorAll('.skel').forEach(function(el) { el.style.display = ''; });
@@ -762,6 +925,8 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
 
           // ── Changed files ──────────────────────────────────────────────
           var stagedFiles = msg.stagedFiles || [];
+          setText('changed-source', msg.sourceLabel || '');
+          document.getElementById('changed-source').title = msg.sourceLabel || '';
           setText('changed-count', stagedFiles.length);
           if (stagedFiles.length > 0) {
             setHtml('changed-files-list', stagedFiles.map(function(f) {
@@ -778,17 +943,20 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
                 });
               });
           } else {
-            setHtml('changed-files-list', '<div class="empty-state">No staged changes detected</div>');
+            setHtml('changed-files-list', '<div class="empty-state">No changes detected</div>');
           }
 
+          // ── Changed symbols ────────────────────────────────────────────
+          renderChangedSymbols(msg.changedSymbols || []);
+
           // ── Direct / indirect impact ───────────────────────────────────
           renderImpactList('direct-list',   'direct-count',
             msg.directImpact || [], msg.depthMap || {}, rootReasonMap,
-            msg.paths || {}, msg.symbolNameMap || {});
+            msg.paths || {}, msg.pathKinds || {}, msg.usageMap || {}, msg.renderedProps || {}, msg.dispatchTargets || {}, msg.compileVerification || {}, msg.unstagedEdits || {}, msg.symbolNameMap || {});
 
           renderImpactList('indirect-list', 'indirect-count',
             msg.indirectImpact || [], msg.depthMap || {}, rootReasonMap,
-            msg.paths || {}, msg.symbolNameMap || {});
+            msg.paths || {}, msg.pathKinds || {}, msg.usageMap || {}, msg.renderedProps || {}, msg.dispatchTargets || {}, msg.compileVerification || {}, msg.unstagedEdits || {}, msg.symbolNameMap || {});
           break;
         }
 
@@ -823,7 +991,7 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
               : rooted + ' symbol(s) in scope \\u2192 ' + t + ' dependent(s) at risk';
           var content =
             renderRoots(msg.resolvedRoots || [], msg.changeType) +
-            renderPredictedLists(msg.directImpact, msg.indirectImpact, msg.depthMap, msg.confidenceMap, msg.phantomIds || [], msg.paths || {});
+            renderPredictedLists(msg.directImpact, msg.indirectImpact, msg.depthMap, msg.confidenceMap, msg.phantomIds || [], msg.paths || {}, msg.pathKinds || {}, msg.usageMap || {}, msg.renderedProps || {}, msg.dispatchTargets || {});
           document.getElementById('whatif-content').innerHTML = content;
           break;
         }
@@ -883,7 +1051,143 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
         .replace(/"/g, '&quot;');
     }
 
-    function renderImpactList(listId, countId, symbols, depthMap, rootReasonMap, paths, nameMap) {
+    // Each hop of a path is labelled with how the later symbol uses the one
+    // before it: "root → caller (calls)".
+    var EDGE_KIND_LABELS = {
+      'call':       'calls',
+      'new':        'instantiates',
+      'type':       'uses type',
+      'extends':    'extends',
+      'implements': 'implements',
+      'override':   'overrides',
+      'reexport':   're-exports',
+      'import':     'loads module',
+      'render':     'renders',
+      'reference':  'references',
+    };
+
+    function edgeKindTag(kinds) {
+      if (!kinds || kinds.length === 0) { return ''; }
+      var labels = kinds.map(function(k) { return EDGE_KIND_LABELS[k] || k; });
+      return ' <span class="edge-kind">(' + escHtml(labels.join(', ')) + ')</span>';
+    }
+
+    // A symbol that renders an impacted component lists the props it passes,
+    // which are the attributes to check when the component's props change.
+    function renderedPropsHtml(props) {
+      if (!props) { return ''; }
+      return '<div class="sym-file">' +
+             (props.length === 0
+               ? 'renders it without props'
+               : 'passes ' + props.map(function(p) { return '<code>' + escHtml(p) + '</code>'; }).join(', ')) +
+             '</div>';
+    }
+
+    // A call through a base member may run any of its overrides, each of
+    // which has to follow the base member's change.
+    function dispatchHtml(names) {
+      if (!names || names.length === 0) { return ''; }
+      return '<div class="sym-file">dispatches to ' +
+             names.map(function(n) { return '<code>' + escHtml(n) + '</code>'; }).join(', ') +
+             '</div>';
+    }
+
+    // Symbols reached only through type-only edges can fail to compile but
+    // keep their runtime behaviour — tagged so they can be triaged separately.
+    function usageTag(usage) {
+      return usage === 'type'
+        ? '<span class="reason-tag usage-type" title="Reached only through type references">type only</span>'
+        : '';
+    }
+
+    // Signature changes carry the type checker's verdict on whether existing
+    // uses of the symbol still compile.
+    var COMPAT_LABELS = {
+      'breaking':             'breaking',
+      'potentially-breaking': 'potentially breaking',
+      'compatible':           'compatible',
+    };
+
+    function compatTag(compatibility) {
+      if (!compatibility) { return ''; }
+      return '<span class="compat-tag compat-' + escHtml(compatibility) + '">' +
+             escHtml(COMPAT_LABELS[compatibility] || compatibility) + '</span>';
+    }
+
+    // "param \`opts\` became required" — backticked names render as code.
+    function signatureDiffHtml(diff) {
+      if (!diff || !diff.changes || diff.changes.length === 0) { return ''; }
+      return '<ul class="sig-diff" title="' + escHtml(diff.before + '\\n\\u2192 ' + diff.after) + '">' +
+             diff.changes.map(function(change) {
+               return '<li>' + escHtml(change).replace(/\`([^\`]*)\`/g, '<code>$1</code>') + '</li>';
+             }).join('') +
+             '</ul>';
+    }
+
+    // With compile verification on, every impacted symbol carries the type
+    // checker's verdict on the staged snapshot, and the new errors if any.
+    function compileTag(verification) {
+      if (!verification) { return ''; }
+      return verification.verdict === 'breaks'
+        ? '<span class="compat-tag compile-breaks">breaks compilation</span>'
+        : '<span class="compat-tag compile-compiles">type-checks</span>';
+    }
+
+    function compileErrorsHtml(verification) {
+      if (!verification || verification.errors.length === 0) { return ''; }
+      return '<ul class="compile-errors">' +
+             verification.errors.map(function(e) {
+               return '<li>' + escHtml(e.filePath + ':' + e.line + ':' + e.column) + ' ' + escHtml(e.message) + '</li>';
+             }).join('') +
+             '</ul>';
+    }
+
+    // Impacted symbols being edited in the working tree without being staged:
+    // the fix for the staged change may be left out of the commit.
+    function unstagedTag(hunks) {
+      if (!hunks || hunks.length === 0) { return ''; }
+      return '<span class="compat-tag unstaged-edits" title="Edited in the working tree but not staged">unstaged edits</span>';
+    }
+
+    function unstagedHtml(symId, hunks) {
+      if (!hunks || hunks.length === 0) { return ''; }
+      var lines = hunks.map(function(h) {
+        return h.newLineCount > 1 ? h.newStartLine + '\u2013' + (h.newStartLine + h.newLineCount - 1) : String(h.newStartLine);
+      });
+      return '<div class="unstaged-row">' +
+             '<span>' + hunks.length + ' unstaged hunk' + (hunks.length === 1 ? '' : 's') + ' at line ' + escHtml(lines.join(', ')) + '</span>' +
+             '<button class="rc-btn-sm stage-btn" data-id="' + escHtml(symId) + '" title="Stage these hunks">Stage</button>' +
+             '</div>';
+    }
+
+    function movedToHtml(target) {
+      if (!target) { return ''; }
+      return '<div class="sym-file">\\u2192 ' + escHtml(target.name) + ' in ' + escHtml(target.filePath || '') +
+             (target.startLine ? ':' + target.startLine : '') + '</div>';
+    }
+
+    function renderChangedSymbols(symbols) {
+      var listEl = document.getElementById('changed-symbols-list');
+      setText('changed-symbols-count', symbols.length);
+      if (symbols.length === 0) {
+        listEl.innerHTML = '<div class="empty-state">\\u2014</div>';
+        return;
+      }
+      listEl.innerHTML = symbols.map(function(sym) {
+        return '<div class="impact-row">' +
+               '<div class="impact-hdr">' +
+               '<span class="sym-name" title="' + escHtml(sym.name) + '">' + escHtml(sym.name) + '</span>' +
+               '<span class="reason-tag">' + escHtml(sym.reason) + '</span>' +
+               compatTag(sym.compatibility) +
+               '</div>' +
+               '<div class="sym-file">' + escHtml(sym.filePath || '') + (sym.startLine ? ':' + sym.startLine : '') + '</div>' +
+               movedToHtml(sym.movedTo) +
+               signatureDiffHtml(sym.signatureDiff) +
+               '</div>';
+      }).join('');
+    }
+
+    function renderImpactList(listId, countId, symbols, depthMap, rootReasonMap, paths, pathKinds, usageMap, renderedProps, dispatchTargets, compileVerification, unstagedEdits, nameMap) {
       var listEl  = document.getElementById(listId);
       var countEl = document.getElementById(countId);
       if (!symbols || symbols.length === 0) {
@@ -891,17 +1195,29 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
         listEl.innerHTML    = '<div class="empty-state">\\u2014</div>';
         return;
       }
+      var typeOnly = symbols.filter(function(sym) { return usageMap[sym.id] === 'type'; }).length;
       countEl.textContent = symbols.length;
+      var breaking = symbols.filter(function(sym) {
+        return compileVerification[sym.id] && compileVerification[sym.id].verdict === 'breaks';
+      }).length;
+      var unstaged = symbols.filter(function(sym) { return unstagedEdits[sym.id]; }).length;
+      countEl.title = (symbols.length - typeOnly) + ' runtime, ' + typeOnly + ' type only' +
+                      (Object.keys(compileVerification).length > 0 ? ', ' + breaking + ' breaking compilation' : '') +
+                      (unstaged > 0 ? ', ' + unstaged + ' with unstaged edits' : '');
       listEl.innerHTML = symbols.map(function(sym) {
         var depth     = depthMap[sym.id] !== undefined ? depthMap[sym.id] : '?';
         var reason    = rootReasonMap[sym.id] || '';
         var shortFile = sym.filePath || '';
         var symPaths  = paths[sym.id] || [];
+        var symKinds  = pathKinds[sym.id] || [];
         var pathHtml  = '';
         if (symPaths.length > 0) {
           pathHtml = '<div class="path-trace">' +
-            symPaths.map(function(p) {
-              return p.map(function(id) { return escHtml(nameMap[id] || id); }).join(' \\u2192 ');
+            symPaths.map(function(p, pi) {
+              var hops = symKinds[pi] || [];
+              return p.map(function(id, i) {
+                return escHtml(nameMap[id] || id) + (i > 0 ? edgeKindTag(hops[i - 1]) : '');
+              }).join(' \\u2192 ');
             }).join('<br>') +
             '</div>';
         }
@@ -910,8 +1226,15 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
                '<span class="sym-name" title="' + escHtml(sym.name) + '">' + escHtml(sym.name) + '</span>' +
                '<span class="depth-badge">d' + depth + '</span>' +
                (reason ? '<span class="reason-tag">' + escHtml(reason) + '</span>' : '') +
+               usageTag(usageMap[sym.id]) +
+               compileTag(compileVerification[sym.id]) +
+               unstagedTag(unstagedEdits[sym.id]) +
                '</div>' +
                '<div class="sym-file">' + escHtml(shortFile) + (sym.startLine ? ':' + sym.startLine : '') + '</div>' +
+               renderedPropsHtml(renderedProps[sym.id]) +
+               dispatchHtml((dispatchTargets[sym.id] || []).map(function(id) { return nameMap[id] || id; })) +
+               compileErrorsHtml(compileVerification[sym.id]) +
+               unstagedHtml(sym.id, unstagedEdits[sym.id]) +
                pathHtml +
                '</div>';
       }).join('');
@@ -921,6 +1244,12 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
           row.classList.toggle('expanded');
         });
       });
+      listEl.querySelectorAll('.stage-btn').forEach(function(btn) {
+        btn.addEventListener('click', function() {
+          btn.disabled = true;
+          vscode.postMessage({ command: 'stageHunks', hunks: unstagedEdits[btn.dataset.id] });
+        });
+      });
     }
 
     // ── What If? rendering helpers ───────────────────────────────────────
@@ -933,7 +1262,8 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
       if (h < 0) { return { name: id, file: '', isPhantom: false }; }
       var filePart = id.slice(0, h);
       var fileName = filePart.split('/').pop() || filePart;
-      return { name: id.slice(h + 1), file: fileName, isPhantom: false };
+      var name = id.slice(h + 1);
+      return { name: name === '<module>' ? 'module: ' + fileName : name, file: fileName, isPhantom: false };
     }
 
     function renderRoots(resolvedRoots, changeType) {
@@ -970,23 +1300,26 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
       return 'low confidence';
     }
 
-    function renderPath(paths, id) {
+    function renderPath(paths, id, pathKinds) {
       if (!paths || !paths[id] || !paths[id].length) { return ''; }
       var best = paths[id][0];
       if (best.length < 2) { return ''; }
-      var parts = best.map(function(pid) { return symParts(pid).name; });
+      var hops  = (pathKinds && pathKinds[id] && pathKinds[id][0]) || [];
+      var parts = best.map(function(pid, i) {
+        return escHtml(symParts(pid).name) + (i > 0 ? edgeKindTag(hops[i - 1]) : '');
+      });
       var chain;
       if (parts.length <= 3) {
         chain = parts.join(' \\u2192 ');
       } else {
         chain = parts[0] + ' \\u2192 \\u2026 \\u2192 ' + parts[parts.length - 2] + ' \\u2192 ' + parts[parts.length - 1];
       }
-      return '<div class="path-trace" style="display:block">' + escHtml(chain) + '</div>';
+      return '<div class="path-trace" style="display:block">' + chain + '</div>';
     }
 
     var MAX_INDIRECT = 8;
 
-    function renderPredictedLists(direct, indirect, depthMap, confMap, phantomIds, paths) {
+    function renderPredictedLists(direct, indirect, depthMap, confMap, phantomIds, paths, pathKinds, usageMap, renderedProps, dispatchTargets) {
       var html = '';
 
       if (phantomIds && phantomIds.length > 0) {
@@ -1012,7 +1345,7 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
       if (direct.length > 0) {
         html += '<div class="impact-group"><div class="impact-label">Direct (' + direct.length + ')</div>';
         html += '<ul class="sym-list">';
-        for (var i = 0; i < direct.length; i++) { html += renderPredSym(direct[i], depthMap, confMap, paths); }
+        for (var i = 0; i < direct.length; i++) { html += renderPredSym(direct[i], depthMap, confMap, paths, pathKinds, usageMap, renderedProps, dispatchTargets); }
         html += '</ul></div>';
       }
 
@@ -1020,7 +1353,7 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
         html += '<div class="impact-group"><div class="impact-label">Indirect (' + indirect.length + ')</div>';
         html += '<ul class="sym-list">';
         var shown = Math.min(indirect.length, MAX_INDIRECT);
-        for (var i = 0; i < shown; i++) { html += renderPredSym(indirect[i], depthMap, confMap, paths); }
+        for (var i = 0; i < shown; i++) { html += renderPredSym(indirect[i], depthMap, confMap, paths, pathKinds, usageMap, renderedProps, dispatchTargets); }
         html += '</ul>';
         if (indirect.length > MAX_INDIRECT) {
           html += '<div class="more-hint">&hellip; and ' + (indirect.length - MAX_INDIRECT) + ' more</div>';
@@ -1031,18 +1364,21 @@ export class GitVisualizerPanel implements vscode.WebviewViewProvider {
       return html;
     }
 
-    function renderPredSym(id, depthMap, confMap, paths) {
+    function renderPredSym(id, depthMap, confMap, paths, pathKinds, usageMap, renderedProps, dispatchTargets) {
       var p     = symParts(id);
       var depth = depthMap && depthMap[id] !== undefined ? depthMap[id] : '?';
       var conf  = confMap ? confMap[id] : null;
       var html  = '<li class="sym-item"><div class="sym-info">';
       html += '<div class="sym-name">' + escHtml(p.name) + '</div>';
       html += '<div class="sym-file">' + escHtml(p.file) + '</div>';
-      html += renderPath(paths, id);
+      html += renderedPropsHtml(renderedProps && renderedProps[id]);
+      html += dispatchHtml(((dispatchTargets && dispatchTargets[id]) || []).map(function(t) { return symParts(t).name; }));
+      html += renderPath(paths, id, pathKinds);
       html += '</div><div class="badges">';
       var depthLabel = depth === 1 ? 'direct' : 'depth\\u00a0' + depth;
       html += '<span class="badge depth-badge">' + depthLabel + '</span>';
       if (conf) { html += '<span class="badge b-' + conf + '">' + confLabel(conf) + '</span>'; }
+      if (usageMap && usageMap[id] === 'type') { html += '<span class="badge">type\\u00a0only</span>'; }
       html += '</div></li>';
       return html;
     }